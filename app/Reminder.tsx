@@ -17,49 +17,274 @@ import {
   AppState,
   AppStateStatus,
   Dimensions,
+  Switch,
 } from 'react-native';
 
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import DateTimePicker from '@react-native-community/datetimepicker';
 import { Audio } from 'expo-av';
+import * as BackgroundTask from 'expo-background-task';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
 import { LinearGradient } from 'expo-linear-gradient';
+import * as Notifications from 'expo-notifications';
+import * as TaskManager from 'expo-task-manager';
 const { width} = Dimensions.get('window');
 
 // Enhanced Medicine interface with categories
 interface Medicine {
   id: string;
   name: string;
+  // Free-text instructions shown with the dose
   dosage: string;
+  dose?: DoseAmount;
   times: string[];
-  frequency: 'daily' | 'weekly';
+  // Per-slot dose amounts, aligned with times; only set when the slots differ
+  timeAmounts?: number[];
+  // Routine-relative slots, aligned with times; their clock time is resolved from the routine
+  timeAnchors?: (DoseTimeAnchor | null)[];
+  // Usual times kept aside while fasting-mode times are in use
+  regularTimes?: string[];
+  frequency: MedicineFrequency;
   weeklyDays?: number[];
+  intervalHours?: number;
+  cycle?: MedicineCycle;
+  asNeeded?: AsNeededLimits;
+  course?: MedicineCourse;
+  taper?: TaperStep[];
   startDate: string;
   isActive: boolean;
   lastTaken?: string;
+  slotStatuses?: Record<string, DoseSlotStatus>;
   color?: string;
+  // Kept in the dose's unit, so fractions are possible. Medicines added before batches keep a plain count
   stock?: number;
+  batches?: StockBatch[];
+  packSize?: number;
+  // As-needed medicines can't be forecast, so they alert at a fixed count instead
   stockAlert?: number;
+  refillReminderDays?: number;
   category: MedicineCategory;
   icon: string;
   priority: 'low' | 'medium' | 'high' | 'critical';
+  // Overrides the category's alarm sound
+  sound?: AlarmSound;
+  preReminder?: PreReminder;
+  device?: MedicineDevice;
   notes?: string;
 }
 
+type DoseSlotStatus = 'taken' | 'skipped' | 'missed';
+
+// A pack of the medicine; doses use up the batch that expires first
+interface StockBatch {
+  id: string;
+  quantity: number;
+  expiryDate: string;
+  lotNumber?: string;
+}
+
+type DoseForm = 'tablet' | 'capsule' | 'ml' | 'drops' | 'puffs' | 'units';
+
+type DeviceKind = 'inhaler' | 'pen' | 'dropper';
+
+// The device in use, counted down in the dose's unit on every intake
+interface MedicineDevice {
+  kind: DeviceKind;
+  capacity: number;
+  remaining: number;
+  openedAt: string;
+  // Days the device may be used once opened, e.g. 28 for eye drops
+  discardAfterDays?: number;
+  lowAlert: number;
+}
+
+interface DoseAmount {
+  amount: number;
+  form: DoseForm;
+}
+
+// A gentle heads-up some minutes before each dose, e.g. to eat or to fetch the medicine from the fridge
+interface PreReminder {
+  minutesBefore: number;
+  note?: string;
+}
+
+type MedicineFrequency = 'daily' | 'weekly' | 'interval' | 'cyclic' | 'asNeeded';
+
+// Limits for as-needed (PRN) medicines, which have no scheduled times
+interface AsNeededLimits {
+  minIntervalHours: number;
+  maxDailyDoses: number;
+}
+
+// Cycles are counted from the medicine's startDate
+type MedicineCycle =
+  | { type: 'everyNDays'; interval: number }
+  | { type: 'onOff'; onDays: number; offDays: number }
+  | { type: 'monthly'; days: number };
+
+type CycleType = MedicineCycle['type'];
+
+// A course ends on a given date or after a number of doses, whichever is set
+interface MedicineCourse {
+  endDate?: string;
+  totalDoses?: number;
+  dosesTaken: number;
+  completedAt?: string;
+}
+
+type CourseType = 'none' | 'endDate' | 'doseCount';
+
+// One step of a taper or titration plan, run back to back from the startDate
+interface TaperStep {
+  dosage: string;
+  // Read from the leading number of the step's dosage, in the medicine's dose unit
+  amount?: number;
+  days: number;
+}
+
+type AlarmToneId = 'classic' | 'gentle' | 'urgent' | 'chime';
+
+// A bundled tone or an audio file the user picked, copied into the app's documents
+type AlarmSound =
+  | { type: 'tone'; tone: AlarmToneId }
+  | { type: 'file'; uri: string; name: string };
+
+type VibrationPresetId = 'gentle' | 'double' | 'long' | 'heartbeat' | 'sos';
+
 type MedicineCategory = 'heart' | 'brain' | 'pain' | 'vitamin' | 'antibiotic' | 'diabetes' | 'blood' | 'respiratory' | 'digestive' | 'other';
 
 interface ValidationErrors {
   name?: string;
   dosage?: string;
   time?: string;
+  interval?: string;
+  asNeeded?: string;
+  cycle?: string;
+  course?: string;
+  taper?: string;
   stock?: string;
+  device?: string;
+}
+
+interface AlarmDose {
+  medicineId: string;
+  medicineName: string;
+  dosage: string;
+  time: string;
+  slotKey: string;
+  status?: 'taken' | 'skipped';
 }
 
+// A dose session groups every medicine that rang together
 interface ActiveAlarm {
+  doses: AlarmDose[];
+  snoozeCount: number;
+}
+
+interface SnoozedAlarm {
+  id: string;
+  fireAt: string;
+  alarm: ActiveAlarm;
+}
+
+type MedicinePriority = Medicine['priority'];
+
+type RoutineAnchor = 'breakfast' | 'lunch' | 'dinner' | 'bedtime';
+
+type PrayerName = 'fajr' | 'dhuhr' | 'asr' | 'maghrib' | 'isha';
+
+// A dose time set relative to a daily routine event or prayer, negative offsets fall before it
+interface DoseTimeAnchor {
+  anchor: RoutineAnchor | PrayerName;
+  offsetMinutes: number;
+}
+
+type PrayerMethod = 'mwl' | 'makkah' | 'egypt' | 'karachi' | 'gulf' | 'isna';
+
+interface PrayerSettings {
+  locationName?: string;
+  latitude?: number;
+  longitude?: number;
+  method: PrayerMethod;
+  asrMethod: 'standard' | 'hanafi';
+}
+
+type FastingMode = 'off' | 'dateRange' | 'hijri';
+
+interface FastingSettings {
+  mode: FastingMode;
+  startDate: string;
+  endDate: string;
+  suhoor: string;
+  iftar: string;
+  autoRemap: boolean;
+}
+
+// How loudly a dose alerts: a silent notification, vibration only, or the full alarm
+type AlertMode = 'silent' | 'vibrate' | 'ring';
+
+interface QuietHoursSettings {
+  enabled: boolean;
+  start: string;
+  end: string;
+  modes: Record<MedicinePriority, AlertMode>;
+}
+
+interface AlarmSoundSettings {
+  categories: Partial<Record<MedicineCategory, AlarmSound>>;
+  fadeInSeconds: number;
+}
+
+interface AppSettings {
+  snoozeMinutes: number;
+  maxSnoozes: Record<MedicinePriority, number>;
+  routine: Record<RoutineAnchor, string>;
+  fasting: FastingSettings;
+  prayer: PrayerSettings;
+  quietHours: QuietHoursSettings;
+  sounds: AlarmSoundSettings;
+  vibration: Record<MedicinePriority, number[]>;
+}
+
+interface MissedDose {
+  id: string;
   medicineId: string;
   medicineName: string;
   dosage: string;
   time: string;
+  slotKey: string;
+  scheduledAt: string;
+}
+
+type MissedDoseAction = 'taken' | 'skipped' | 'ignored';
+
+type IntakeAction = 'taken' | 'skipped' | 'missed' | 'snoozed' | 'escalated';
+
+interface IntakeEvent {
+  id: string;
+  medicineId: string;
+  medicineName: string;
+  dosage: string;
+  slotKey: string;
+  scheduledAt: string;
+  actualAt: string;
+  action: IntakeAction;
   snoozeCount: number;
+  escalationStep?: number;
+  // Stock a taken dose used up, so the stock history can be rebuilt
+  stockUsed?: number;
+}
+
+// Stock added to a medicine; discarded expired stock is logged with a negative quantity
+interface RestockEntry {
+  id: string;
+  medicineId: string;
+  date: string;
+  quantity: number;
+  pharmacy?: string;
+  price?: number;
 }
 
 // Enhanced category configuration with icons and colors
@@ -134,1029 +359,4934 @@ const PRIORITY_CONFIG = {
   critical: { name: 'حرجة', icon: '🔴', color: '#E74C3C' }
 };
 
+// Intake history action configuration
+const INTAKE_ACTION_CONFIG = {
+  taken: { name: 'تم التناول', icon: '✅', color: '#10B981' },
+  skipped: { name: 'تم التخطي', icon: '⏭️', color: '#6B7280' },
+  missed: { name: 'فائتة', icon: '❌', color: '#DC2626' },
+  snoozed: { name: 'مؤجلة', icon: '⏰', color: '#F59E0B' },
+  escalated: { name: 'تصعيد التنبيه', icon: '📢', color: '#7C3AED' }
+};
+
+// Unanswered high and critical alarms re-ring on this schedule until the dose is taken or skipped
+const ESCALATION_CONFIG: Partial<Record<Medicine['priority'], { intervalMinutes: number; maxSteps: number }>> = {
+  high: { intervalMinutes: 5, maxSteps: 3 },
+  critical: { intervalMinutes: 3, maxSteps: 5 },
+};
+
+// Volume grows with each step; the first entry is the initial ring
+const ESCALATION_VOLUMES = [0.5, 0.7, 0.85, 1.0];
+
+// Vibration patterns are alternating vibrate and pause lengths in milliseconds, starting with a vibration
+const VIBRATION_PRESETS: Record<VibrationPresetId, { name: string; icon: string; pattern: number[] }> = {
+  gentle: { name: 'نبضة هادئة', icon: '🌊', pattern: [400, 1600] },
+  double: { name: 'نبضتان', icon: '✌️', pattern: [300, 200, 300, 1200] },
+  long: { name: 'طويل', icon: '➖', pattern: [1000, 500, 1000, 500, 1000, 500] },
+  heartbeat: { name: 'نبض القلب', icon: '💓', pattern: [150, 100, 150, 100, 600, 900] },
+  sos: { name: 'استغاثة', icon: '🆘', pattern: [200, 200, 200, 200, 200, 500, 800, 200, 800, 200, 800, 500, 200, 200, 200, 200, 200, 1200] },
+};
+
+const VIBRATION_PULSES = { short: 200, long: 800 };
+const VIBRATION_PULSE_GAP = 300;
+const MAX_VIBRATION_PULSES = 10;
+// Patterns shorter than this are re-run after a break rather than back to back
+const MIN_VIBRATION_REPEAT_MS = 4000;
+
+// Cycle type configuration
+const CYCLE_TYPE_CONFIG = {
+  everyNDays: { name: 'كل عدة أيام', icon: '🔁' },
+  onOff: { name: 'أيام تناول وراحة', icon: '⏯️' },
+  monthly: { name: 'أيام من كل شهر', icon: '🗓️' }
+};
+
+// Dose forms and the unit their amount and stock are counted in
+const DOSE_FORMS: Record<DoseForm, { name: string; icon: string; unit: string; step: number }> = {
+  tablet: { name: 'أقراص', icon: '💊', unit: 'قرص', step: 0.5 },
+  capsule: { name: 'كبسولات', icon: '💊', unit: 'كبسولة', step: 1 },
+  ml: { name: 'سائل', icon: '🧴', unit: 'مل', step: 0.5 },
+  drops: { name: 'قطرات', icon: '💧', unit: 'قطرة', step: 1 },
+  puffs: { name: 'بخاخ', icon: '🌬️', unit: 'بخة', step: 1 },
+  units: { name: 'حقن', icon: '💉', unit: 'وحدة', step: 1 },
+};
+
+// Devices with a fixed capacity, and the defaults a new one starts from
+const DEVICE_KINDS: Record<DeviceKind, { name: string; icon: string; form: DoseForm; capacity: number; discardAfterDays?: number }> = {
+  inhaler: { name: 'بخاخ', icon: '🌬️', form: 'puffs', capacity: 200 },
+  pen: { name: 'قلم إنسولين', icon: '💉', form: 'units', capacity: 300, discardAfterDays: 28 },
+  dropper: { name: 'قطرة', icon: '💧', form: 'drops', capacity: 100, discardAfterDays: 28 },
+};
+
+const DEVICE_LOW_FRACTION = 0.1;
+const DEVICE_DISCARD_WARNING_DAYS = 3;
+
+// Course length configuration
+const COURSE_TYPE_CONFIG = {
+  none: { name: 'مستمر', icon: '♾️' },
+  endDate: { name: 'حتى تاريخ', icon: '📅' },
+  doseCount: { name: 'عدد جرعات', icon: '🔢' }
+};
+
+// Alert mode configuration
+const ALERT_MODE_CONFIG: Record<AlertMode, { name: string; icon: string }> = {
+  silent: { name: 'صامت', icon: '🔕' },
+  vibrate: { name: 'اهتزاز', icon: '📳' },
+  ring: { name: 'رنين', icon: '🔔' },
+};
+
+const ALERT_MODE_STRENGTH: AlertMode[] = ['silent', 'vibrate', 'ring'];
+
+// Bundled tones. Those with a notification sound, registered in app.json, also ring scheduled notifications;
+// the classic one rings them with the system sound
+const ALARM_TONES: Record<AlarmToneId, { name: string; icon: string; asset: number; notificationSound?: string }> = {
+  classic: { name: 'كلاسيكي', icon: '🔔', asset: require('../assets/sound/alarm.mp3') },
+  gentle: { name: 'هادئ', icon: '🎐', asset: require('../assets/sound/gentle.wav'), notificationSound: 'gentle.wav' },
+  urgent: { name: 'عاجل', icon: '🚨', asset: require('../assets/sound/urgent.wav'), notificationSound: 'urgent.wav' },
+  chime: { name: 'رنّان', icon: '🎵', asset: require('../assets/sound/chime.wav'), notificationSound: 'chime.wav' },
+};
+
+const DEFAULT_ALARM_TONE: AlarmToneId = 'classic';
+const ALARM_SOUNDS_DIRECTORY = `${FileSystem.documentDirectory}alarm-sounds/`;
+const FADE_IN_OPTIONS = [0, 10, 30, 60];
+const SOUND_PREVIEW_SECONDS = 5;
+
+const SNOOZE_OPTIONS = [5, 10, 15, 30];
+
+// Daily routine events that dose times can follow
+const ROUTINE_ANCHORS: Record<RoutineAnchor, { name: string; icon: string }> = {
+  breakfast: { name: 'الفطور', icon: '🍳' },
+  lunch: { name: 'الغداء', icon: '🍲' },
+  dinner: { name: 'العشاء', icon: '🍽️' },
+  bedtime: { name: 'النوم', icon: '🛏️' },
+};
+
+const PRAYER_ANCHORS: Record<PrayerName, { name: string; icon: string }> = {
+  fajr: { name: 'صلاة الفجر', icon: '🌄' },
+  dhuhr: { name: 'صلاة الظهر', icon: '☀️' },
+  asr: { name: 'صلاة العصر', icon: '🌤️' },
+  maghrib: { name: 'صلاة المغرب', icon: '🌇' },
+  isha: { name: 'صلاة العشاء', icon: '🌙' },
+};
+
+const ANCHOR_OFFSET_OPTIONS = [-60, -30, -15, 0, 15, 30, 60];
+
+// Twilight angles of the common calculation methods; some set Isha a fixed time after Maghrib
+const PRAYER_METHODS: Record<PrayerMethod, { name: string; fajrAngle: number; ishaAngle?: number; ishaMinutes?: number }> = {
+  mwl: { name: 'رابطة العالم الإسلامي', fajrAngle: 18, ishaAngle: 17 },
+  makkah: { name: 'أم القرى', fajrAngle: 18.5, ishaMinutes: 90 },
+  egypt: { name: 'الهيئة المصرية للمساحة', fajrAngle: 19.5, ishaAngle: 17.5 },
+  karachi: { name: 'جامعة كراتشي', fajrAngle: 18, ishaAngle: 18 },
+  gulf: { name: 'منطقة الخليج', fajrAngle: 19.5, ishaMinutes: 90 },
+  isna: { name: 'أمريكا الشمالية', fajrAngle: 15, ishaAngle: 15 },
+};
+
+const PRESET_LOCATIONS = [
+  { name: 'مكة المكرمة', latitude: 21.4225, longitude: 39.8262 },
+  { name: 'الرياض', latitude: 24.7136, longitude: 46.6753 },
+  { name: 'القاهرة', latitude: 30.0444, longitude: 31.2357 },
+  { name: 'دبي', latitude: 25.2048, longitude: 55.2708 },
+  { name: 'الكويت', latitude: 29.3759, longitude: 47.9774 },
+  { name: 'الدوحة', latitude: 25.2854, longitude: 51.531 },
+  { name: 'عمّان', latitude: 31.9454, longitude: 35.9284 },
+  { name: 'بغداد', latitude: 33.3152, longitude: 44.3661 },
+  { name: 'دمشق', latitude: 33.5138, longitude: 36.2765 },
+  { name: 'بيروت', latitude: 33.8938, longitude: 35.5018 },
+  { name: 'الخرطوم', latitude: 15.5007, longitude: 32.5599 },
+  { name: 'الجزائر', latitude: 36.7538, longitude: 3.0588 },
+  { name: 'تونس', latitude: 36.8065, longitude: 10.1815 },
+  { name: 'الدار البيضاء', latitude: 33.5731, longitude: -7.5898 },
+];
+
+// Fasting mode configuration
+const FASTING_MODE_CONFIG: Record<FastingMode, { name: string; icon: string }> = {
+  off: { name: 'إيقاف', icon: '⏸️' },
+  dateRange: { name: 'تواريخ محددة', icon: '📅' },
+  hijri: { name: 'رمضان تلقائياً', icon: '🌙' },
+};
+
+const HIJRI_MONTHS = ['محرم', 'صفر', 'ربيع الأول', 'ربيع الآخر', 'جمادى الأولى', 'جمادى الآخرة', 'رجب', 'شعبان', 'رمضان', 'شوال', 'ذو القعدة', 'ذو الحجة'];
+
+// Shortest gap between night-time doses before a regimen no longer fits the eating window
+const MIN_FASTING_DOSE_GAP_MINUTES = 4 * 60;
+
+const DEFAULT_SETTINGS: AppSettings = {
+  snoozeMinutes: 5,
+  maxSnoozes: { low: 5, medium: 3, high: 2, critical: 1 },
+  routine: { breakfast: '08:00', lunch: '14:00', dinner: '20:00', bedtime: '23:00' },
+  fasting: {
+    mode: 'off',
+    startDate: new Date().toISOString(),
+    endDate: new Date(Date.now() + 29 * 24 * 60 * 60 * 1000).toISOString(),
+    suhoor: '03:30',
+    iftar: '18:30',
+    autoRemap: true,
+  },
+  prayer: { method: 'mwl', asrMethod: 'standard' },
+  quietHours: {
+    enabled: false,
+    start: '22:00',
+    end: '07:00',
+    modes: { low: 'silent', medium: 'silent', high: 'vibrate', critical: 'ring' },
+  },
+  sounds: { categories: {}, fadeInSeconds: 0 },
+  vibration: {
+    low: VIBRATION_PRESETS.gentle.pattern,
+    medium: VIBRATION_PRESETS.double.pattern,
+    high: VIBRATION_PRESETS.long.pattern,
+    critical: VIBRATION_PRESETS.sos.pattern,
+  },
+};
+
 const DAYS_OF_WEEK = ['الأحد', 'الإثنين', 'الثلاثاء', 'الأربعاء', 'الخميس', 'الجمعة', 'السبت'];
 
-const MedicineReminderApp: React.FC = () => {
-  const [medicines, setMedicines] = useState<Medicine[]>([]);
-  const [showAddForm, setShowAddForm] = useState(false);
-  const [validationErrors, setValidationErrors] = useState<ValidationErrors>({});
-  const [selectedCategory, setSelectedCategory] = useState<string>('all');
-  const [sortBy, setSortBy] = useState<'name' | 'time' | 'priority' | 'category'>('time');
-  const [newMedicine, setNewMedicine] = useState({
-    name: '',
-    dosage: '',
-    times: [''],
-    frequency: 'daily' as 'daily' | 'weekly',
-    weeklyDays: [] as number[],
-    stock: '',
-    stockAlert: '',
-    category: 'other' as MedicineCategory,
-    priority: 'medium' as 'low' | 'medium' | 'high' | 'critical',
-    notes: '',
-  });
-  const [showTimePicker, setShowTimePicker] = useState(false);
-  const [currentTimeIndex, setCurrentTimeIndex] = useState(0);
-  const [selectedTime, setSelectedTime] = useState(new Date());
-  const [activeAlarm, setActiveAlarm] = useState<ActiveAlarm | null>(null);
-  const [showAlarmModal, setShowAlarmModal] = useState(false);
-  const [refreshing, setRefreshing] = useState(false);
-  const [isLoading, setIsLoading] = useState(true);
-  const [appState, setAppState] = useState(AppState.currentState);
-  
-  // Sound and timer refs
-  const soundRef = useRef<Audio.Sound | null>(null);
-  const vibrationRef = useRef<NodeJS.Timeout | null>(null);
-  const alarmCheckRef = useRef<NodeJS.Timeout | null>(null);
-  
-  // Animation values
-  const pulseAnimation = useRef(new RNAnimated.Value(1)).current;
-  const fadeAnimation = useRef(new RNAnimated.Value(0)).current;
-  const alarmScaleAnimation = useRef(new RNAnimated.Value(0)).current;
-  const headerAnimation = useRef(new RNAnimated.Value(0)).current;
-  const cardAnimations = useRef<RNAnimated.Value[]>([]).current;
-  const floatingAnimation = useRef(new RNAnimated.Value(0)).current;
+const STORAGE_KEYS = {
+  medicines: 'medicine_reminders',
+  intakeEvents: 'medicine_intake_events',
+  restocks: 'medicine_restocks',
+  snoozedAlarms: 'snoozed_alarms',
+  settings: 'app_settings',
+  missedDoses: 'missed_doses',
+  lastMissedCheck: 'missed_doses_last_check',
+  lastNotificationSync: 'notifications_last_sync',
+};
 
-  // Handle app state changes
-  useEffect(() => {
-    const handleAppStateChange = (nextAppState: AppStateStatus) => {
-      const previousAppState = appState;
-      setAppState(nextAppState);
-      
-      if (previousAppState.match(/inactive|background/) && nextAppState === 'active') {
-        console.log('App became active, checking for missed medications');
-      }
-    };
+const NOTIFICATION_CHANNEL_ID = 'medicine-alarms';
+const ESCALATION_NOTIFICATION_ID = 'alarm-escalation';
+// Escalation re-rings are scheduled for the doses due this far ahead, topped up with the rest
+const ESCALATION_NOTIFICATION_HOURS = 24;
+// Android fixes sound and vibration per channel, so each alert mode gets its own
+const ALERT_MODE_CHANNELS: Record<AlertMode, string> = {
+  ring: NOTIFICATION_CHANNEL_ID,
+  vibrate: 'medicine-alarms-vibrate',
+  silent: 'medicine-alarms-silent',
+};
+const PRE_REMINDER_CHANNEL_ID = 'medicine-pre-reminders';
+const PRE_REMINDER_OPTIONS = [0, 10, 15, 30, 60];
+const REFILL_CHANNEL_ID = 'medicine-refills';
+const REFILL_REMINDER_TIME = '10:00';
+const DEFAULT_REFILL_REMINDER_DAYS = 7;
+const EXPIRY_WARNING_DAYS = 30;
+const STOCK_HISTORY_DAYS = 14;
+const PACK_COUNT_OPTIONS = [1, 2, 3];
+// Stock that outlasts this many days is not forecast any further
+const STOCK_FORECAST_DAYS = 365;
+// Cyclic doses can't use repeating triggers, so this many days ahead are scheduled one by one
+const CYCLIC_NOTIFICATION_DAYS = 7;
+// One-off notifications only reach a few days ahead, so the background task tops them up this often
+const NOTIFICATION_REFRESH_HOURS = 12;
+const MISSED_DOSE_TASK = 'missed-dose-check';
 
-    const subscription = AppState.addEventListener('change', handleAppStateChange);
-    return () => subscription?.remove();
-  }, [appState]);
+// A dose counts as missed once it is this late
+const MISSED_DOSE_GRACE_MINUTES = 30;
+const MISSED_DOSE_LOOKBACK_HOURS = 24;
+const DOSE_SLOT_RETENTION_DAYS = 30;
 
-  // Initialize audio settings
-  useEffect(() => {
-    const initializeAudio = async () => {
-      try {
-        await Audio.setAudioModeAsync({
-          allowsRecordingIOS: false,
-          staysActiveInBackground: true,
-          playsInSilentModeIOS: true,
-          shouldDuckAndroid: true,
-          playThroughEarpieceAndroid: false,
-        });
-      } catch (error) {
-        console.log('Audio initialization error:', error);
-      }
+// While the app is open the in-app alarm modal handles the dose, so keep the OS notification silent.
+// Pre-reminders, stock reminders and doses due in quiet hours have no alarm modal and are shown as a banner
+Notifications.setNotificationHandler({
+  handleNotification: async notification => {
+    const type = notification.request.content.data?.type;
+    // Scheduled escalation re-rings give way to the in-app escalation while the app is open
+    const showBanner = type === 'pre-reminder' || type === 'refill' || type === 'expiry' || type === 'device' ||
+      type === 'silent-dose' || notification.request.identifier === ESCALATION_NOTIFICATION_ID;
+    return {
+      shouldShowBanner: showBanner,
+      shouldShowList: showBanner,
+      shouldPlaySound: false,
+      shouldSetBadge: false,
     };
+  },
+});
 
-    initializeAudio();
-  }, []);
+// Build the date of a HH:MM slot on a given day
+const getSlotDate = (day: Date, time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const slot = new Date(day);
+  slot.setHours(hours, minutes, 0, 0);
+  return slot;
+};
 
-  // Enhanced initialization animations
-  useEffect(() => {
-    RNAnimated.parallel([
-      RNAnimated.timing(fadeAnimation, {
-        toValue: 1,
-        duration: 1000,
-        useNativeDriver: true,
-      }),
-      RNAnimated.timing(headerAnimation, {
-        toValue: 1,
-        duration: 1200,
-        useNativeDriver: true,
-      }),
-    ]).start();
+// Local YYYY-MM-DD key for a date
+const toDateKey = (date: Date) =>
+  `${date.getFullYear()}-${(date.getMonth() + 1).toString().padStart(2, '0')}-${date.getDate().toString().padStart(2, '0')}`;
 
-    const floatingLoop = RNAnimated.loop(
-      RNAnimated.sequence([
-        RNAnimated.timing(floatingAnimation, {
-          toValue: 1,
-          duration: 3000,
-          useNativeDriver: true,
-        }),
-        RNAnimated.timing(floatingAnimation, {
-          toValue: 0,
-          duration: 3000,
-          useNativeDriver: true,
-        }),
-      ])
-    );
-    floatingLoop.start();
+// HH:MM string for a date
+const toTimeString = (date: Date) =>
+  `${date.getHours().toString().padStart(2, '0')}:${date.getMinutes().toString().padStart(2, '0')}`;
 
-    return () => floatingLoop.stop();
-  }, [fadeAnimation, headerAnimation, floatingAnimation]);
+// A slot is identified by its day and HH:MM time, e.g. 2025-08-01_08:00
+const getSlotKey = (day: Date, time: string) => `${toDateKey(day)}_${time}`;
 
-  // card animations
-  useEffect(() => {
-  if (medicines.length > 0) {
-    const animations = medicines.map((_, index) => {
-      if (!cardAnimations[index]) {
-        cardAnimations[index] = new RNAnimated.Value(0);
-      }
-      return RNAnimated.timing(cardAnimations[index], {
-        toValue: 1,
-        duration: 500,
-        delay: index * 100,
-        useNativeDriver: true,
-      });
-    });
+// Add doses to a session, ignoring ones it already holds
+const mergeAlarmDoses = (current: AlarmDose[], incoming: AlarmDose[]) => [
+  ...current,
+  ...incoming.filter(dose =>
+    !current.some(existing => existing.medicineId === dose.medicineId && existing.slotKey === dose.slotKey)
+  ),
+];
 
-    RNAnimated.stagger(100, animations).start();
+// Turn a slot key back into the scheduled date
+const getSlotDateFromKey = (slotKey: string) => {
+  const [dateKey, time] = slotKey.split('_');
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return getSlotDate(new Date(year, month - 1, day), time);
+};
+
+const isPrayerAnchor = (anchor: DoseTimeAnchor['anchor']): anchor is PrayerName => anchor in PRAYER_ANCHORS;
+
+const getAnchorConfig = (anchor: DoseTimeAnchor['anchor']) =>
+  isPrayerAnchor(anchor) ? PRAYER_ANCHORS[anchor] : ROUTINE_ANCHORS[anchor];
+
+// Prayer times for a day, worked out on the device from the sun's position at the saved location
+const getPrayerTimes = (prayer: PrayerSettings, day: Date): Record<PrayerName, string> | undefined => {
+  const { latitude, longitude } = prayer;
+  if (latitude === undefined || longitude === undefined) return undefined;
+
+  const method = PRAYER_METHODS[prayer.method];
+  const toRadians = (degrees: number) => degrees * Math.PI / 180;
+  const toDegrees = (radians: number) => radians * 180 / Math.PI;
+  const fixAngle = (angle: number) => angle - 360 * Math.floor(angle / 360);
+  const fixHour = (hour: number) => hour - 24 * Math.floor(hour / 24);
+
+  let year = day.getFullYear();
+  let month = day.getMonth() + 1;
+  if (month <= 2) {
+    year -= 1;
+    month += 12;
   }
-}, [medicines, cardAnimations]);
+  const century = Math.floor(year / 100);
+  const julianDate = Math.floor(365.25 * (year + 4716)) + Math.floor(30.6001 * (month + 1)) +
+    day.getDate() + 2 - century + Math.floor(century / 4) - 1524.5 - longitude / (15 * 24);
 
+  const sunPosition = (julianDay: number) => {
+    const days = julianDay - 2451545;
+    const meanAnomaly = fixAngle(357.529 + 0.98560028 * days);
+    const meanLongitude = fixAngle(280.459 + 0.98564736 * days);
+    const eclipticLongitude = fixAngle(meanLongitude + 1.915 * Math.sin(toRadians(meanAnomaly)) + 0.02 * Math.sin(toRadians(2 * meanAnomaly)));
+    const obliquity = 23.439 - 0.00000036 * days;
+    const rightAscension = toDegrees(Math.atan2(
+      Math.cos(toRadians(obliquity)) * Math.sin(toRadians(eclipticLongitude)),
+      Math.cos(toRadians(eclipticLongitude))
+    )) / 15;
+    return {
+      declination: toDegrees(Math.asin(Math.sin(toRadians(obliquity)) * Math.sin(toRadians(eclipticLongitude)))),
+      equationOfTime: meanLongitude / 15 - fixHour(rightAscension),
+    };
+  };
+  const midDay = (portion: number) => fixHour(12 - sunPosition(julianDate + portion).equationOfTime);
+  // Time the sun reaches the given angle below the horizon, before or after noon
+  const sunAngleTime = (angle: number, portion: number, beforeNoon = false) => {
+    const { declination } = sunPosition(julianDate + portion);
+    const hourAngle = toDegrees(Math.acos(
+      (-Math.sin(toRadians(angle)) - Math.sin(toRadians(declination)) * Math.sin(toRadians(latitude))) /
+      (Math.cos(toRadians(declination)) * Math.cos(toRadians(latitude)))
+    )) / 15;
+    return midDay(portion) + (beforeNoon ? -hourAngle : hourAngle);
+  };
+  const asrTime = (shadowFactor: number, portion: number) => {
+    const { declination } = sunPosition(julianDate + portion);
+    const angle = -toDegrees(Math.atan(1 / (shadowFactor + Math.tan(toRadians(Math.abs(latitude - declination))))));
+    return sunAngleTime(angle, portion);
+  };
 
-  // Enhanced pulse animation for alarm
-  useEffect(() => {
-    if (showAlarmModal) {
-      RNAnimated.spring(alarmScaleAnimation, {
-        toValue: 1,
-        tension: 100,
-        friction: 8,
-        useNativeDriver: true,
-      }).start();
+  const maghrib = sunAngleTime(0.833, 18 / 24);
+  const times = {
+    fajr: sunAngleTime(method.fajrAngle, 5 / 24, true),
+    dhuhr: midDay(12 / 24),
+    asr: asrTime(prayer.asrMethod === 'hanafi' ? 2 : 1, 13 / 24),
+    maghrib,
+    isha: method.ishaMinutes ? maghrib + method.ishaMinutes / 60 : sunAngleTime(method.ishaAngle || 17, 18 / 24),
+  };
+  // At high latitudes the sun may never reach the twilight angle
+  if (Object.values(times).some(isNaN)) return undefined;
 
-      const pulse = RNAnimated.loop(
-        RNAnimated.sequence([
-          RNAnimated.timing(pulseAnimation, {
-            toValue: 1.2,
-            duration: 800,
-            useNativeDriver: true,
-          }),
-          RNAnimated.timing(pulseAnimation, {
-            toValue: 0.9,
-            duration: 800,
-            useNativeDriver: true,
-          }),
-          RNAnimated.timing(pulseAnimation, {
-            toValue: 1,
-            duration: 400,
-            useNativeDriver: true,
-          }),
-        ])
-      );
-      pulse.start();
-      return () => {
-        pulse.stop();
-        alarmScaleAnimation.setValue(0);
-      };
-    }
-  }, [showAlarmModal, pulseAnimation, alarmScaleAnimation]);
+  const timezone = -new Date(day.getFullYear(), day.getMonth(), day.getDate(), 12).getTimezoneOffset() / 60;
+  const toClock = (hour: number) => fromMinutes((hour + timezone - longitude / 15) * 60);
+  return {
+    fajr: toClock(times.fajr),
+    dhuhr: toClock(times.dhuhr),
+    asr: toClock(times.asr),
+    maghrib: toClock(times.maghrib),
+    isha: toClock(times.isha),
+  };
+};
 
-  // Create alarm sound using expo-av
-  const createAlarmSound = useCallback(async () => {
-    try {
-      const { sound } = await Audio.Sound.createAsync(
-        require('../assets/sound/alarm.mp3'),
-        { 
-          shouldPlay: false, 
-          isLooping: true,
-          volume: 1.0,
-        }
-      );
-      return sound;
-    } catch (error) {
-      console.log('Error creating sound, using vibration only:', error);
-      return null;
-    }
-  }, []);
+// Clock time of a routine- or prayer-relative slot on the given day, wrapping around midnight
+const resolveAnchorTime = (anchor: DoseTimeAnchor, settings: Pick<AppSettings, 'routine' | 'prayer'>, day = new Date()) => {
+  const base = isPrayerAnchor(anchor.anchor)
+    ? getPrayerTimes(settings.prayer, day)?.[anchor.anchor]
+    : settings.routine[anchor.anchor];
+  return base && fromMinutes(toMinutes(base) + anchor.offsetMinutes);
+};
 
-  // Play alarm sound
-  const playAlarmSound = useCallback(async () => {
-    try {
-      const sound = await createAlarmSound();
-      if (sound) {
-        soundRef.current = sound;
-        await sound.playAsync();
-        
-        setTimeout(async () => {
-          if (soundRef.current) {
-            try {
-              await soundRef.current.stopAsync();
-              await soundRef.current.unloadAsync();
-            } catch (e) {
-              console.log('Error stopping sound:', e);
-            }
-            soundRef.current = null;
-          }
-        }, 60000);
-      }
-    } catch (error) {
-      console.log('Error playing sound:', error);
-    }
-  }, [createAlarmSound]);
+// Re-resolve a medicine's relative times against the routine and today's prayer times
+const withResolvedTimes = (medicine: Medicine, settings: Pick<AppSettings, 'routine' | 'prayer'>) => {
+  if (!medicine.timeAnchors?.some(Boolean)) return medicine;
+  const resolve = (times: string[]) => times.map((time, index) => {
+    const anchor = medicine.timeAnchors?.[index];
+    return (anchor && resolveAnchorTime(anchor, settings)) || time;
+  });
+  // While fasting, the anchors belong to the usual times set aside
+  return medicine.regularTimes
+    ? { ...medicine, regularTimes: resolve(medicine.regularTimes) }
+    : { ...medicine, times: resolve(medicine.times) };
+};
 
-  // Stop alarm sound
-  const stopAlarmSound = useCallback(async () => {
-    try {
-      if (soundRef.current) {
-        await soundRef.current.stopAsync();
-        await soundRef.current.unloadAsync();
-        soundRef.current = null;
-      }
-    } catch (error) {
-      console.log('Error stopping sound:', error);
-    }
-  }, []);
+// Dose times on the given day, with prayer-relative ones following that day's prayer times
+const getTimesOnDay = (medicine: Medicine, settings: Pick<AppSettings, 'routine' | 'prayer'>, day: Date) => {
+  if (medicine.regularTimes) return medicine.times;
+  return medicine.times.map((time, index) => {
+    const anchor = medicine.timeAnchors?.[index];
+    return (anchor && isPrayerAnchor(anchor.anchor) && resolveAnchorTime(anchor, settings, day)) || time;
+  });
+};
 
-  // Mark medicine as taken and update stock
-  const markAsTaken = useCallback((id: string) => {
-    setMedicines(prev => prev.map(med => {
-      if (med.id === id) {
-        const newStock = med.stock ? Math.max(0, med.stock - 1) : undefined;
-        return { 
-          ...med, 
-          lastTaken: new Date().toISOString(),
-          stock: newStock
-        };
-      }
-      return med;
-    }));
-    Alert.alert('تم ✅', 'تم تسجيل تناول الدواء بنجاح', [
-      { text: 'حسناً', style: 'default' }
-    ]);
-  }, []);
+// Short label for an offset chip
+const getOffsetLabel = (offsetMinutes: number) => {
+  if (offsetMinutes === 0) return 'في الموعد';
+  const amount = Math.abs(offsetMinutes) === 60 ? 'ساعة' : `${Math.abs(offsetMinutes)} د`;
+  return offsetMinutes < 0 ? `قبل ${amount}` : `بعد ${amount}`;
+};
 
-  // Stop alarm (sound and vibration)
-  const stopAlarm = useCallback(async () => {
-    await stopAlarmSound();
-    
-    if (vibrationRef.current) {
-      clearInterval(vibrationRef.current);
-      vibrationRef.current = null;
-    }
-    Vibration.cancel();
+// Describe a relative slot, e.g. 30 minutes before breakfast
+const describeAnchor = (anchor: DoseTimeAnchor) => {
+  const name = getAnchorConfig(anchor.anchor).name;
+  if (anchor.offsetMinutes === 0) {
+    if (isPrayerAnchor(anchor.anchor)) return `عند أذان ${name.replace('صلاة ', '')}`;
+    return anchor.anchor === 'bedtime' ? 'عند النوم' : `مع ${name}`;
+  }
+  const amount = Math.abs(anchor.offsetMinutes) === 60 ? 'بساعة' : `بـ ${Math.abs(anchor.offsetMinutes)} دقيقة`;
+  return anchor.offsetMinutes < 0 ? `قبل ${name} ${amount}` : `بعد ${name} ${amount}`;
+};
 
-    setActiveAlarm(null);
-    setShowAlarmModal(false);
-  }, [stopAlarmSound]);
+// Convert a date to the tabular Islamic calendar. It can differ from the sighted calendar by a day or two
+const toHijri = (date: Date) => {
+  let year = date.getFullYear();
+  let month = date.getMonth() + 1;
+  if (month <= 2) {
+    year -= 1;
+    month += 12;
+  }
+  const century = Math.floor(year / 100);
+  const julianDay = Math.floor(365.25 * (year + 4716)) + Math.floor(30.6001 * (month + 1)) +
+    date.getDate() + 2 - century + Math.floor(century / 4) - 1524;
 
-  // Trigger alarm function with sound and vibration
-  const triggerAlarm = useCallback(async (alarmData: ActiveAlarm) => {
-    if (activeAlarm) return;
+  const hijriToJulian = (y: number, m: number, d: number) =>
+    d + Math.ceil(29.5 * (m - 1)) + (y - 1) * 354 + Math.floor((3 + 11 * y) / 30) + 1948439;
+  const hijriYear = Math.floor((30 * (julianDay - 1948440) + 10646) / 10631);
+  const hijriMonth = Math.min(12, Math.ceil((julianDay - (29 + hijriToJulian(hijriYear, 1, 1))) / 29.5) + 1);
+  return {
+    year: hijriYear,
+    month: hijriMonth,
+    day: julianDay - hijriToJulian(hijriYear, hijriMonth, 1) + 1,
+  };
+};
 
-    setActiveAlarm(alarmData);
-    setShowAlarmModal(true);
+// Check whether fasting mode covers the given day
+const isFastingDay = (fasting: FastingSettings, day: Date) => {
+  switch (fasting.mode) {
+    case 'hijri':
+      return toHijri(day).month === 9;
+    case 'dateRange':
+      return daysBetween(new Date(fasting.startDate), day) >= 0 && daysBetween(day, new Date(fasting.endDate)) >= 0;
+    default:
+      return false;
+  }
+};
 
-    await playAlarmSound();
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
 
-    const vibrationPattern = [0, 1000, 500, 1000, 500, 1000];
-    Vibration.vibrate(vibrationPattern, true);
-    
-    vibrationRef.current = setInterval(() => {
-      Vibration.vibrate([500, 300, 500, 300]);
-    }, 4000) as unknown as NodeJS.Timeout;
+const fromMinutes = (total: number) => {
+  const wrapped = ((Math.round(total) % 1440) + 1440) % 1440;
+  return `${Math.floor(wrapped / 60).toString().padStart(2, '0')}:${(wrapped % 60).toString().padStart(2, '0')}`;
+};
 
-  }, [activeAlarm, playAlarmSound]);
+// Why a medicine can't be moved into the eating window, if it can't
+const getFastingIssue = (medicine: Medicine, fasting: FastingSettings) => {
+  if (medicine.frequency === 'interval') {
+    return 'دواء بفاصل ساعات ثابت لا يمكن نقله تلقائياً، استشر طبيبك';
+  }
+  const doses = (medicine.regularTimes || medicine.times).length;
+  const windowMinutes = (toMinutes(fasting.suhoor) - toMinutes(fasting.iftar) + 1440) % 1440;
+  if (doses > 1 && windowMinutes / (doses - 1) < MIN_FASTING_DOSE_GAP_MINUTES) {
+    return `يحتاج ${doses} جرعات يومياً ولا تتسع ساعات الإفطار لها، استشر طبيبك`;
+  }
+  return undefined;
+};
 
-  // Snooze alarm for 5 minutes
-  const snoozeAlarm = useCallback(async () => {
-    if (activeAlarm) {
-      await stopAlarm();
-      
-      setTimeout(() => {
-        const snoozedAlarm = {
-          ...activeAlarm,
-          snoozeCount: activeAlarm.snoozeCount + 1
-        };
-        triggerAlarm(snoozedAlarm);
-      }, 5 * 60 * 1000);
-      
-      Alert.alert('تأجيل ⏰', 'تم تأجيل المنبه لمدة 5 دقائق');
-    }
-  }, [activeAlarm, stopAlarm, triggerAlarm]);
+// Spread a day's doses from iftar to suhoor. A single dose keeps to its side of the day
+const getFastingTimes = (times: string[], fasting: FastingSettings) => {
+  if (times.length === 1) {
+    return [toMinutes(times[0]) < 12 * 60 ? fasting.suhoor : fasting.iftar];
+  }
+  const windowMinutes = (toMinutes(fasting.suhoor) - toMinutes(fasting.iftar) + 1440) % 1440;
+  const gap = windowMinutes / (times.length - 1);
+  return times.map((_, index) => fromMinutes(toMinutes(fasting.iftar) + gap * index));
+};
 
-  // Mark medicine as taken and stop alarm
-  const markAsTakenFromAlarm = useCallback(async () => {
-    if (activeAlarm) {
-      markAsTaken(activeAlarm.medicineId);
-      await stopAlarm();
-    }
-  }, [activeAlarm, stopAlarm, markAsTaken]);
+const canRemapForFasting = (medicine: Medicine, fasting: FastingSettings) =>
+  medicine.frequency !== 'asNeeded' && medicine.times.length > 0 && !getFastingIssue(medicine, fasting);
 
-  // Cleanup function for timers and sound
-  useEffect(() => {
-    return () => {
-      const cleanup = async () => {
-        if (vibrationRef.current) {
-          clearInterval(vibrationRef.current);
-        }
-        if (alarmCheckRef.current) {
-          clearInterval(alarmCheckRef.current);
-        }
-        await stopAlarmSound();
-      };
-      cleanup();
-    };
-  }, [stopAlarmSound]);
+// Move a medicine to fasting times, keeping its usual times aside for afterwards
+const withFastingTimes = (medicine: Medicine, fasting: FastingSettings) => {
+  const regularTimes = medicine.regularTimes || medicine.times;
+  return { ...medicine, regularTimes, times: getFastingTimes(regularTimes, fasting) };
+};
 
-  // Check if today is a selected weekly day
-  const isWeeklyDayActive = useCallback((medicine: Medicine): boolean => {
-    if (medicine.frequency !== 'weekly' || !medicine.weeklyDays) return true;
-    const today = new Date().getDay();
-    return medicine.weeklyDays.includes(today);
-  }, []);
+// Check whether a moment falls inside quiet hours, which may wrap past midnight
+const isInQuietHours = (quietHours: QuietHoursSettings, date: Date) => {
+  if (!quietHours.enabled) return false;
+  const minutes = date.getHours() * 60 + date.getMinutes();
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+  return start <= end
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end;
+};
 
-  // Check for medicine times every minute
-  useEffect(() => {
-    const checkMedicineTimes = () => {
-      const now = new Date();
-      const currentTime = `${now.getHours().toString().padStart(2, '0')}:${now.getMinutes().toString().padStart(2, '0')}`;
-      
-      medicines.forEach(medicine => {
-        if (medicine.isActive && medicine.times.includes(currentTime)) {
-          if (medicine.frequency === 'weekly' && !isWeeklyDayActive(medicine)) {
-            return;
-          }
+// How a dose of the given priority alerts at the given moment
+const getAlertMode = (priority: MedicinePriority, date: Date, quietHours: QuietHoursSettings): AlertMode =>
+  isInQuietHours(quietHours, date) ? quietHours.modes[priority] : 'ring';
 
-          const lastTaken = medicine.lastTaken ? new Date(medicine.lastTaken) : null;
-          const timeSinceLastTaken = lastTaken ? (now.getTime() - lastTaken.getTime()) / (1000 * 60) : Infinity;
-          
-          if (timeSinceLastTaken > 1) {
-            if (medicine.stock !== undefined && medicine.stockAlert !== undefined) {
-              if (medicine.stock <= medicine.stockAlert) {
-                Alert.alert(
-                  '⚠️ تنبيه المخزون',
-                  `مخزون دواء ${medicine.name} منخفض (${medicine.stock} متبقي)`
-                );
-              }
-            }
+// A dose that still rings inside quiet hours does so at full volume; otherwise escalation starts quieter
+const getEscalationVolume = (step: number, date: Date, quietHours: QuietHoursSettings) =>
+  isInQuietHours(quietHours, date) ? 1.0 : ESCALATION_VOLUMES[Math.min(step, ESCALATION_VOLUMES.length - 1)];
 
-            triggerAlarm({
-              medicineId: medicine.id,
-              medicineName: medicine.name,
-              dosage: medicine.dosage,
-              time: currentTime,
-              snoozeCount: 0
-            });
-          }
-        }
+// A medicine's own sound wins over its category's, which wins over the default tone
+const getAlarmSound = (medicine: { sound?: AlarmSound | null; category: MedicineCategory }, sounds: AlarmSoundSettings): AlarmSound =>
+  medicine.sound || sounds.categories[medicine.category] || { type: 'tone', tone: DEFAULT_ALARM_TONE };
+
+// Scheduled notifications can only ring bundled tones, so a picked file falls back to the category's tone
+const getNotificationTone = (medicine: Medicine, sounds: AlarmSoundSettings): AlarmToneId => {
+  const sound = getAlarmSound(medicine, sounds);
+  if (sound.type === 'tone') return sound.tone;
+  const categorySound = sounds.categories[medicine.category];
+  return categorySound?.type === 'tone' ? categorySound.tone : DEFAULT_ALARM_TONE;
+};
+
+// Android fixes a channel's sound and vibration once it is created, so dose notifications ring on a channel
+// per tone and priority, named after the vibration pattern so an edited pattern gets a fresh channel
+const getDoseChannelId = (alertMode: 'ring' | 'vibrate', tone: AlarmToneId, priority: MedicinePriority, pattern: number[]) => {
+  const patternKey = pattern.reduce((hash, length) => (hash * 31 + length) % 2147483647, 7).toString(36);
+  return alertMode === 'ring'
+    ? `${NOTIFICATION_CHANNEL_ID}-${tone}-${priority}-${patternKey}`
+    : `${ALERT_MODE_CHANNELS.vibrate}-${priority}-${patternKey}`;
+};
+
+// Create the dose channels for the current vibration patterns and drop the ones they replaced
+const syncDoseChannels = async (vibration: Record<MedicinePriority, number[]>) => {
+  const channelIds = new Set<string>(Object.values(ALERT_MODE_CHANNELS));
+  for (const priority of Object.keys(PRIORITY_CONFIG) as MedicinePriority[]) {
+    const vibrationPattern = toVibrationPattern(vibration[priority]);
+    for (const tone of Object.keys(ALARM_TONES) as AlarmToneId[]) {
+      const channelId = getDoseChannelId('ring', tone, priority, vibration[priority]);
+      channelIds.add(channelId);
+      await Notifications.setNotificationChannelAsync(channelId, {
+        name: `تذكير الأدوية - ${PRIORITY_CONFIG[priority].name} - ${ALARM_TONES[tone].name}`,
+        importance: Notifications.AndroidImportance.MAX,
+        sound: ALARM_TONES[tone].notificationSound || 'default',
+        vibrationPattern,
+        lockscreenVisibility: Notifications.AndroidNotificationVisibility.PUBLIC,
+        bypassDnd: true,
       });
-    };
+    }
+    const channelId = getDoseChannelId('vibrate', DEFAULT_ALARM_TONE, priority, vibration[priority]);
+    channelIds.add(channelId);
+    await Notifications.setNotificationChannelAsync(channelId, {
+      name: `تذكير الأدوية - ${PRIORITY_CONFIG[priority].name} - اهتزاز`,
+      importance: Notifications.AndroidImportance.HIGH,
+      sound: null,
+      vibrationPattern,
+      lockscreenVisibility: Notifications.AndroidNotificationVisibility.PUBLIC,
+    });
+  }
 
-    checkMedicineTimes();
-    alarmCheckRef.current = setInterval(checkMedicineTimes, 60000) as unknown as NodeJS.Timeout;
+  const channels = await Notifications.getNotificationChannelsAsync();
+  await Promise.all(channels
+    .filter(channel => channel.id.startsWith(`${NOTIFICATION_CHANNEL_ID}-`) && !channelIds.has(channel.id))
+    .map(channel => Notifications.deleteNotificationChannelAsync(channel.id)));
+};
 
-    return () => {
-      if (alarmCheckRef.current) {
-        clearInterval(alarmCheckRef.current);
-      }
-    };
-  }, [medicines, triggerAlarm, isWeeklyDayActive]);
+const getAlarmSoundLabel = (sound: AlarmSound) =>
+  sound.type === 'tone' ? `${ALARM_TONES[sound.tone].icon} ${ALARM_TONES[sound.tone].name}` : `📁 ${sound.name}`;
 
-  // Load medicines from storage
-  const loadMedicines = useCallback(async () => {
-    try {
-      setIsLoading(true);
-      const stored = await AsyncStorage.getItem('medicine_reminders');
-      if (stored) {
-        setMedicines(JSON.parse(stored));
+// React Native patterns start with a wait before the first vibration
+const toVibrationPattern = (pattern: number[]) => [0, ...pattern];
+
+const getVibrationPresetName = (pattern: number[]) => {
+  const preset = Object.values(VIBRATION_PRESETS).find(item => item.pattern.join() === pattern.join());
+  return preset ? `${preset.icon} ${preset.name}` : '✏️ مخصص';
+};
+
+// Escalation keeps the rhythm recognisable and lengthens each vibration
+const intensifyVibration = (pattern: number[], step: number) =>
+  pattern.map((length, index) => index % 2 === 0 ? Math.round(length * (1 + step * 0.25)) : length);
+
+// Let the user pick a local audio file and keep a copy, since the picker's cache copy may be cleared
+const pickAlarmSoundFile = async (): Promise<AlarmSound | null> => {
+  const result = await DocumentPicker.getDocumentAsync({ type: 'audio/*', copyToCacheDirectory: true });
+  if (result.canceled || !result.assets[0]) return null;
+
+  const asset = result.assets[0];
+  const extension = asset.name.includes('.') ? asset.name.slice(asset.name.lastIndexOf('.')) : '';
+  const uri = `${ALARM_SOUNDS_DIRECTORY}${Date.now()}${extension}`;
+  await FileSystem.makeDirectoryAsync(ALARM_SOUNDS_DIRECTORY, { intermediates: true });
+  await FileSystem.copyAsync({ from: asset.uri, to: uri });
+  return { type: 'file', uri, name: asset.name };
+};
+
+// Whole calendar days from one date to another
+const daysBetween = (from: Date, to: Date) => {
+  const start = new Date(from.getFullYear(), from.getMonth(), from.getDate());
+  const end = new Date(to.getFullYear(), to.getMonth(), to.getDate());
+  return Math.round((end.getTime() - start.getTime()) / (24 * 60 * 60 * 1000));
+};
+
+// Check whether a cycle is on an active day, counted from the start date
+const isCycleDayActive = (cycle: MedicineCycle, startDate: Date, day: Date) => {
+  const dayIndex = daysBetween(startDate, day);
+  if (dayIndex < 0) return false;
+
+  switch (cycle.type) {
+    case 'everyNDays':
+      return dayIndex % cycle.interval === 0;
+    case 'onOff':
+      return dayIndex % (cycle.onDays + cycle.offDays) < cycle.onDays;
+    case 'monthly': {
+      // The monthly run starts on the start date's day of month, clamped to short months
+      const runStart = (year: number, month: number) =>
+        new Date(year, month, Math.min(startDate.getDate(), new Date(year, month + 1, 0).getDate()));
+      let anchor = runStart(day.getFullYear(), day.getMonth());
+      if (daysBetween(anchor, day) < 0) {
+        anchor = runStart(day.getFullYear(), day.getMonth() - 1);
       }
-    } catch (error) {
-      console.error('Load error:', error);
-      Alert.alert('خطأ', 'فشل في تحميل البيانات');
-    } finally {
-      setIsLoading(false);
+      return daysBetween(anchor, day) < cycle.days;
     }
-  }, []);
+  }
+};
 
-  // Save medicines to storage
-  const saveMedicines = useCallback(async (medicineList: Medicine[]) => {
-    try {
-      await AsyncStorage.setItem('medicine_reminders', JSON.stringify(medicineList));
-    } catch (error) {
-      console.error('Save error:', error);
-      Alert.alert('خطأ', 'فشل في حفظ البيانات');
-    }
-  }, []);
+// Describe a cycle for display
+const getCycleDescription = (cycle: MedicineCycle) => {
+  switch (cycle.type) {
+    case 'everyNDays':
+      return cycle.interval === 2 ? 'يوم بعد يوم' : `كل ${cycle.interval} أيام`;
+    case 'onOff':
+      return `${cycle.onDays} يوم تناول ثم ${cycle.offDays} يوم راحة`;
+    case 'monthly':
+      return `${cycle.days} أيام من كل شهر`;
+  }
+};
 
-  // Refresh control
-  const onRefresh = useCallback(async () => {
-    setRefreshing(true);
-    await loadMedicines();
-    setRefreshing(false);
-  }, [loadMedicines]);
+// Describe how often a medicine is taken
+const getFrequencyLabel = (medicine: Medicine) => {
+  switch (medicine.frequency) {
+    case 'asNeeded':
+      return `عند الحاجة · كل ${medicine.asNeeded?.minIntervalHours} ساعات على الأقل`;
+    case 'interval':
+      return `كل ${medicine.intervalHours} ساعات`;
+    case 'cyclic':
+      return medicine.cycle ? getCycleDescription(medicine.cycle) : 'دوري';
+    case 'weekly':
+      return 'أسبوعياً';
+    default:
+      return 'يومياً';
+  }
+};
 
-  useEffect(() => {
-    loadMedicines();
-  }, [loadMedicines]);
+// Check whether a medicine has doses on the given day
+const isScheduledOnDay = (medicine: Medicine, day: Date) => {
+  if (medicine.frequency === 'asNeeded') return false;
+  if (medicine.course?.endDate && daysBetween(new Date(medicine.course.endDate), day) > 0) return false;
+  if (medicine.frequency === 'cyclic' && medicine.cycle) {
+    return isCycleDayActive(medicine.cycle, new Date(medicine.startDate), day);
+  }
+  if (medicine.frequency !== 'weekly' || !medicine.weeklyDays) return true;
+  return medicine.weeklyDays.includes(day.getDay());
+};
 
-  useEffect(() => {
-    if (medicines.length >= 0) {
-      saveMedicines(medicines);
+// Next dose of an interval medicine: N hours after the last taken or resolved dose, or the first dose time
+const getNextIntervalDose = (medicine: Medicine) => {
+  const intervalMs = (medicine.intervalHours || 8) * 60 * 60 * 1000;
+  const anchors = Object.entries(medicine.slotStatuses || {})
+    .filter(([, status]) => status !== 'taken')
+    .map(([slotKey]) => getSlotDateFromKey(slotKey).getTime());
+  if (medicine.lastTaken) {
+    anchors.push(new Date(medicine.lastTaken).getTime());
+  }
+
+  if (anchors.length === 0) {
+    const startDate = new Date(medicine.startDate);
+    const firstDose = getSlotDate(startDate, medicine.times[0]);
+    if (firstDose < startDate) {
+      firstDose.setDate(firstDose.getDate() + 1);
     }
-  }, [medicines, saveMedicines]);
+    return firstDose;
+  }
 
-  // Validation functions
-  const validateMedicineName = (name: string) => name.trim().length >= 2;
-  const validateDosage = (dosage: string) => dosage.trim().length >= 2;
-  const validateTime = (time: string) => /^([01]?[0-9]|2[0-3]):[0-5][0-9]$/.test(time);
-  const validateStock = (stock: string) => stock === '' || (!isNaN(Number(stock)) && Number(stock) >= 0);
+  const next = new Date(Math.max(...anchors) + intervalMs);
+  next.setSeconds(0, 0);
+  return next;
+};
 
-  const validateForm = () => {
-    const errors: ValidationErrors = {};
-    if (!validateMedicineName(newMedicine.name)) {
-      errors.name = 'اسم الدواء يجب أن يكون على الأقل حرفين';
+// List a medicine's slots on the given day with their recorded status
+const getDaySlots = (medicine: Medicine, day: Date) => {
+  if (medicine.frequency === 'interval') {
+    const dayKey = toDateKey(day);
+    const slots = Object.entries(medicine.slotStatuses || {})
+      .filter(([slotKey]) => slotKey.startsWith(dayKey))
+      .map(([slotKey, status]): { time: string; slotKey: string; status?: DoseSlotStatus } => ({
+        time: slotKey.split('_')[1],
+        slotKey,
+        status,
+      }));
+    const next = getNextIntervalDose(medicine);
+    const nextSlotKey = getSlotKey(next, toTimeString(next));
+    if (toDateKey(next) === dayKey && !slots.some(slot => slot.slotKey === nextSlotKey)) {
+      slots.push({ time: toTimeString(next), slotKey: nextSlotKey, status: undefined });
     }
-    if (!validateDosage(newMedicine.dosage)) {
-      errors.dosage = 'الجرعة يجب أن تكون على الأقل حرفين';
-    }
-    if (newMedicine.times.some(time => !validateTime(time))) {
-      errors.time = 'يرجى إدخال أوقات صحيحة';
-    }
-    if (!validateStock(newMedicine.stock)) {
-      errors.stock = 'يرجى إدخال رقم صحيح للمخزون';
-    }
-    setValidationErrors(errors);
-    return Object.keys(errors).length === 0;
-  };
+    return slots.sort((a, b) => a.slotKey.localeCompare(b.slotKey));
+  }
 
-  // Get gradient colors for medicine
-  const getMedicineColors = (category: MedicineCategory) => {
-    return MEDICINE_CATEGORIES[category].color as [string, string];
-  };
+  if (!isScheduledOnDay(medicine, day)) return [];
+  return [...medicine.times].sort().map(time => {
+    const slotKey = getSlotKey(day, time);
+    return { time, slotKey, status: medicine.slotStatuses?.[slotKey] };
+  });
+};
 
-  // Add new medicine with animation
-  const addMedicine = () => {
-    if (!validateForm()) {
-      Alert.alert('خطأ ❌', 'يرجى تصحيح الأخطاء المحددة');
-      return;
+// Find the taper step that covers the given day
+const getTaperStep = (medicine: Medicine, day: Date) => {
+  if (!medicine.taper?.length) return undefined;
+  let dayIndex = Math.max(0, daysBetween(new Date(medicine.startDate), day));
+  for (let index = 0; index < medicine.taper.length; index++) {
+    const step = medicine.taper[index];
+    if (dayIndex < step.days) {
+      return { index, step, dayInStep: dayIndex + 1 };
     }
+    dayIndex -= step.days;
+  }
+  return undefined;
+};
 
-    if (medicines.some(med => med.name.toLowerCase() === newMedicine.name.toLowerCase())) {
-      Alert.alert('خطأ ❌', 'يوجد دواء بهذا الاسم مسبقاً');
-      return;
-    }
+// First day of the taper step after the one covering the given day
+const getNextTaperChange = (medicine: Medicine, day: Date) => {
+  const taperStep = getTaperStep(medicine, day);
+  if (!taperStep || !medicine.taper?.[taperStep.index + 1]) return undefined;
+  const nextStepStart = new Date(day);
+  nextStepStart.setDate(nextStepStart.getDate() + taperStep.step.days - taperStep.dayInStep + 1);
+  return nextStepStart;
+};
 
-    const medicine: Medicine = {
-      id: Date.now().toString(),
-      name: newMedicine.name.trim(),
-      dosage: newMedicine.dosage.trim(),
-      times: newMedicine.times.filter(time => time.trim() !== ''),
-      frequency: newMedicine.frequency,
-      weeklyDays: newMedicine.frequency === 'weekly' ? newMedicine.weeklyDays : undefined,
-      startDate: new Date().toISOString(),
-      isActive: true,
-      color: getMedicineColors(newMedicine.category)[0],
-      stock: newMedicine.stock ? Number(newMedicine.stock) : undefined,
-      stockAlert: newMedicine.stockAlert ? Number(newMedicine.stockAlert) : undefined,
-      category: newMedicine.category,
-      icon: MEDICINE_CATEGORIES[newMedicine.category].icon,
-      priority: newMedicine.priority,
-      notes: newMedicine.notes.trim(),
-    };
+// The dose to take on the given day, following the taper plan when there is one
+// Without a time, medicines with per-slot amounts list them all
+const getCurrentDosage = (medicine: Medicine, day: Date, time?: string) => {
+  const taperStep = getTaperStep(medicine, day);
+  if (taperStep) return taperStep.step.dosage;
 
-    setMedicines([...medicines, medicine]);
-    
-    setNewMedicine({ 
-      name: '', 
-      dosage: '', 
-      times: [''], 
-      frequency: 'daily',
-      weeklyDays: [],
-      stock: '',
-      stockAlert: '',
-      category: 'other',
-      priority: 'medium',
-      notes: '',
-    });
-    setValidationErrors({});
-    setShowAddForm(false);
-    
-    Alert.alert('نجح ✅', 'تم إضافة الدواء بنجاح إلى قائمة التذكيرات', [
-      { text: 'رائع!', style: 'default' }
-    ]);
+  const dose = medicine.dose && (time === undefined && medicine.timeAmounts
+    ? `${medicine.timeAmounts.map(formatAmount).join(' + ')} ${DOSE_FORMS[medicine.dose.form].unit}`
+    : formatDose({ ...medicine.dose, amount: getDoseAmount(medicine, day, time) }));
+  return [dose, medicine.dosage].filter(Boolean).join(' · ');
+};
+
+// Index of the dose a slot time belongs to. Routine, prayer and fasting changes rewrite the times,
+// so a time from an older slot key is matched against the usual times and then the closest current one
+const getSlotIndex = (medicine: Medicine, time: string) => {
+  const index = medicine.times.indexOf(time);
+  if (index !== -1) return index;
+  const regularIndex = medicine.regularTimes?.indexOf(time) ?? -1;
+  if (regularIndex !== -1) return regularIndex;
+  const distance = (value: string) => {
+    const difference = Math.abs(toMinutes(value) - toMinutes(time));
+    return Math.min(difference, 24 * 60 - difference);
   };
+  return medicine.times.reduce((closest, value, i) =>
+    distance(value) < distance(medicine.times[closest]) ? i : closest, 0);
+};
 
-  // Add new time slot
-  const addTimeSlot = () => {
-    setNewMedicine({
-      ...newMedicine,
-      times: [...newMedicine.times, '']
+// Stock used by one dose on the given day and slot; medicines without a structured dose count 1
+const getDoseAmount = (medicine: Medicine, day: Date, time?: string) => {
+  const taperAmount = getTaperStep(medicine, day)?.step.amount;
+  if (taperAmount !== undefined) return taperAmount;
+  const slotAmount = time !== undefined && medicine.frequency !== 'interval'
+    ? medicine.timeAmounts?.[getSlotIndex(medicine, time)]
+    : undefined;
+  return slotAmount ?? medicine.dose?.amount ?? 1;
+};
+
+const formatAmount = (amount: number) =>
+  Number.isInteger(amount) ? String(amount) : amount.toFixed(2).replace(/\.?0+$/, '');
+
+const formatDose = (dose: DoseAmount) => `${formatAmount(dose.amount)} ${DOSE_FORMS[dose.form].unit}`;
+
+// Stock in the medicine's unit, or a plain count for medicines without a structured dose
+const formatStock = (medicine: Medicine, stock: number) =>
+  medicine.dose ? `${formatAmount(stock)} ${DOSE_FORMS[medicine.dose.form].unit}` : formatAmount(stock);
+
+// Leading number of a free-text dosage such as "2 أقراص" or "٠٫٥ قرص"
+const parseDoseAmount = (text: string) => {
+  const match = text.trim()
+    .replace(/[٠-٩]/g, digit => String(digit.charCodeAt(0) - 0x0660))
+    .replace('٫', '.')
+    .match(/^\d+(\.\d+)?/);
+  return match ? Number(match[0]) : undefined;
+};
+
+// Check whether a medicine's course has run its length
+const isCourseComplete = (medicine: Medicine, now: Date) => {
+  const course = medicine.course;
+  if (!course) return false;
+  if (course.totalDoses !== undefined && course.dosesTaken >= course.totalDoses) return true;
+  if (course.endDate) {
+    const endDate = new Date(course.endDate);
+    const lastTime = [...medicine.times].sort().pop() || '23:59';
+    return now.getTime() > getSlotDate(endDate, lastTime).getTime();
+  }
+  return false;
+};
+
+// Progress through a course by day and by dose count
+const getCourseProgress = (medicine: Medicine, now: Date) => {
+  const course = medicine.course;
+  if (!course) return undefined;
+  const startDate = new Date(medicine.startDate);
+  const totalDays = course.endDate ? daysBetween(startDate, new Date(course.endDate)) + 1 : undefined;
+  const day = totalDays ? Math.min(totalDays, Math.max(1, daysBetween(startDate, now) + 1)) : undefined;
+  return {
+    day,
+    totalDays,
+    dosesTaken: course.dosesTaken,
+    totalDoses: course.totalDoses,
+    ratio: course.totalDoses
+      ? Math.min(1, course.dosesTaken / course.totalDoses)
+      : day && totalDays ? day / totalDays : 0,
+  };
+};
+
+// Doses of an as-needed medicine in the last 24 hours and when the next one is allowed
+const getAsNeededStatus = (medicine: Medicine, events: IntakeEvent[], now: Date) => {
+  const dayMs = 24 * 60 * 60 * 1000;
+  const recent = events
+    .filter(event => event.medicineId === medicine.id && event.action === 'taken')
+    .map(event => new Date(event.actualAt).getTime())
+    .filter(takenAt => takenAt > now.getTime() - dayMs)
+    .sort((a, b) => a - b);
+  const limits = medicine.asNeeded || { minIntervalHours: 0, maxDailyDoses: Infinity };
+
+  const candidates = [now.getTime()];
+  if (recent.length > 0) {
+    candidates.push(recent[recent.length - 1] + limits.minIntervalHours * 60 * 60 * 1000);
+  }
+  if (recent.length >= limits.maxDailyDoses) {
+    // The oldest dose counting toward the limit has to leave the 24 hour window first
+    candidates.push(recent[recent.length - limits.maxDailyDoses] + dayMs);
+  }
+  const nextAllowedAt = new Date(Math.max(...candidates));
+
+  return {
+    dosesInWindow: recent.length,
+    limitReached: recent.length >= limits.maxDailyDoses,
+    nextAllowedAt,
+    canTake: nextAllowedAt.getTime() <= now.getTime(),
+  };
+};
+
+// Stock expected to be used on a day; today only the doses still ahead count
+const getExpectedUsage = (medicine: Medicine, day: Date, now: Date) => {
+  if (medicine.frequency === 'interval') {
+    const intervalMs = (medicine.intervalHours || 8) * 60 * 60 * 1000;
+    if (daysBetween(now, day) > 0) {
+      return isScheduledOnDay(medicine, day) ? Math.floor(24 * 60 * 60 * 1000 / intervalMs) * getDoseAmount(medicine, day) : 0;
+    }
+    const next = getNextIntervalDose(medicine);
+    const endOfDay = getSlotDate(now, '00:00');
+    endOfDay.setDate(endOfDay.getDate() + 1);
+    return toDateKey(next) === toDateKey(now)
+      ? (Math.floor((endOfDay.getTime() - next.getTime()) / intervalMs) + 1) * getDoseAmount(medicine, day)
+      : 0;
+  }
+  const times = daysBetween(now, day) > 0
+    ? (isScheduledOnDay(medicine, day) ? medicine.times : [])
+    : getDaySlots(medicine, now).filter(slot => !slot.status && getSlotDate(now, slot.time) > now).map(slot => slot.time);
+  return times.reduce((total, time) => total + getDoseAmount(medicine, day, time), 0);
+};
+
+// A batch can still be used on its expiry day
+const isBatchExpired = (batch: { expiryDate?: string }, day: Date) =>
+  !!batch.expiryDate && daysBetween(new Date(batch.expiryDate), day) > 0;
+
+// Stock that can still be taken; expired batches don't count
+const getUsableStock = (medicine: Medicine, now: Date) =>
+  medicine.batches
+    ? medicine.batches.filter(batch => !isBatchExpired(batch, now)).reduce((total, batch) => total + batch.quantity, 0)
+    : medicine.stock;
+
+// Everything on hand, expired batches included, as a physical count would find it
+const getTotalStock = (medicine: Medicine) =>
+  medicine.batches ? medicine.batches.reduce((total, batch) => total + batch.quantity, 0) : medicine.stock;
+
+// End-of-day stock for recent days, worked back from today's count through intakes and restocks
+const getStockHistory = (medicine: Medicine, restocks: RestockEntry[], intakeEvents: IntakeEvent[], now: Date) => {
+  const changes = [
+    ...restocks
+      .filter(entry => entry.medicineId === medicine.id)
+      .map(entry => ({ at: new Date(entry.date), delta: entry.quantity })),
+    ...intakeEvents
+      .filter(event => event.medicineId === medicine.id && event.action === 'taken' && event.stockUsed)
+      .map(event => ({ at: new Date(event.actualAt), delta: -(event.stockUsed || 0) })),
+  ];
+
+  let level = getTotalStock(medicine) ?? 0;
+  const history: { day: Date; level: number; added: number; used: number }[] = [];
+  for (let offset = 0; offset < STOCK_HISTORY_DAYS; offset++) {
+    const day = new Date(now);
+    day.setDate(day.getDate() - offset);
+    const dayChanges = changes.filter(change => daysBetween(change.at, day) === 0);
+    const added = dayChanges.filter(change => change.delta > 0).reduce((total, change) => total + change.delta, 0);
+    const used = dayChanges.filter(change => change.delta < 0).reduce((total, change) => total - change.delta, 0);
+    history.push({ day, level, added, used });
+    level -= added - used;
+  }
+  return history;
+};
+
+const getExpiredStock = (medicine: Medicine, now: Date) =>
+  (medicine.batches || []).filter(batch => isBatchExpired(batch, now)).reduce((total, batch) => total + batch.quantity, 0);
+
+// The first batch that expires within the warning window
+const getExpiringBatch = (medicine: Medicine, now: Date) =>
+  [...(medicine.batches || [])]
+    .filter(batch => !isBatchExpired(batch, now) && daysBetween(now, new Date(batch.expiryDate)) <= EXPIRY_WARNING_DAYS)
+    .sort((a, b) => a.expiryDate.localeCompare(b.expiryDate))[0];
+
+const getDeviceDiscardDate = (device: MedicineDevice) => {
+  if (!device.discardAfterDays) return undefined;
+  const discardAt = new Date(device.openedAt);
+  discardAt.setDate(discardAt.getDate() + device.discardAfterDays);
+  return discardAt;
+};
+
+const isDeviceLow = (device: MedicineDevice) => device.remaining <= device.lowAlert;
+
+const isDeviceDiscardDue = (device: MedicineDevice, now: Date) => {
+  const discardAt = getDeviceDiscardDate(device);
+  return !!discardAt && daysBetween(now, discardAt) <= 0;
+};
+
+const getExpiryLabel = (daysLeft: number) =>
+  daysLeft === 0 ? 'تنتهي صلاحيتها اليوم' : daysLeft === 1 ? 'تنتهي صلاحيتها غداً' : `تنتهي صلاحيتها بعد ${daysLeft} يوم`;
+
+// Take an amount from the usable batches that expire first, dropping the ones used up
+const takeFirstExpiring = <T extends { quantity: number; expiryDate?: string }>(batches: T[], amount: number, now: Date) => {
+  let left = amount;
+  return [...batches]
+    .sort((a, b) => (a.expiryDate || '\uffff').localeCompare(b.expiryDate || '\uffff'))
+    .map(batch => {
+      if (left <= 0 || isBatchExpired(batch, now)) return batch;
+      const taken = Math.min(batch.quantity, left);
+      left -= taken;
+      return { ...batch, quantity: batch.quantity - taken };
+    })
+    .filter(batch => batch.quantity > 0);
+};
+
+// Walk the schedule forward to the first day the stock can't cover; undefined when it outlasts the schedule.
+// Whatever is left of a batch on its expiry date is lost
+const getStockForecast = (medicine: Medicine, now: Date) => {
+  const usable = getUsableStock(medicine, now);
+  if (usable === undefined || medicine.frequency === 'asNeeded' || !medicine.isActive) return undefined;
+
+  let batches: { quantity: number; expiryDate?: string }[] = medicine.batches || [{ quantity: usable }];
+  for (let offset = 0; offset <= STOCK_FORECAST_DAYS; offset++) {
+    const day = new Date(now);
+    day.setDate(day.getDate() + offset);
+    batches = batches.filter(batch => !isBatchExpired(batch, day));
+    const usage = getExpectedUsage(medicine, day, now);
+    if (usage > batches.reduce((total, batch) => total + batch.quantity, 0)) {
+      return { runOutDate: getSlotDate(day, '00:00'), daysLeft: offset };
+    }
+    batches = takeFirstExpiring(batches, usage, day);
+  }
+  return undefined;
+};
+
+// Scheduled medicines are low once they run out within their refill window
+const isLowStock = (medicine: Medicine, now: Date) => {
+  const usable = getUsableStock(medicine, now);
+  if (usable === undefined) return false;
+  if (medicine.frequency === 'asNeeded') {
+    return medicine.stockAlert !== undefined && usable <= medicine.stockAlert;
+  }
+  const forecast = getStockForecast(medicine, now);
+  return !!forecast && forecast.daysLeft <= (medicine.refillReminderDays ?? DEFAULT_REFILL_REMINDER_DAYS);
+};
+
+const getRunOutLabel = (daysLeft: number) =>
+  daysLeft === 0 ? 'ينفد اليوم' : daysLeft === 1 ? 'ينفد غداً' : `ينفد بعد ${daysLeft} يوم`;
+
+// Find the next scheduled slot after the given moment, looking ahead up to two months
+const getNextScheduledSlot = (medicine: Medicine, from: Date) => {
+  for (let offset = 0; offset <= 62; offset++) {
+    const day = new Date(from);
+    day.setDate(day.getDate() + offset);
+    if (!isScheduledOnDay(medicine, day)) continue;
+
+    const next = [...medicine.times].sort()
+      .map(time => getSlotDate(day, time))
+      .find(slot => slot.getTime() > from.getTime());
+    if (next) return next;
+  }
+  return undefined;
+};
+
+// Set a slot status and drop statuses older than the retention window
+const withSlotStatus = (
+  statuses: Record<string, DoseSlotStatus> | undefined,
+  slotKey: string,
+  status: DoseSlotStatus
+) => {
+  const cutoff = new Date();
+  cutoff.setDate(cutoff.getDate() - DOSE_SLOT_RETENTION_DAYS);
+  const cutoffKey = toDateKey(cutoff);
+  const kept = Object.fromEntries(
+    Object.entries(statuses || {}).filter(([key]) => key >= cutoffKey)
+  );
+  return { ...kept, [slotKey]: status };
+};
+
+// Find scheduled slots in (from, to] that have no recorded status
+const findMissedDoses = (medicineList: Medicine[], from: Date, to: Date): MissedDose[] => {
+  const missed: MissedDose[] = [];
+  const day = new Date(from);
+  day.setHours(0, 0, 0, 0);
+
+  while (day <= to) {
+    const currentDay = new Date(day);
+    medicineList.forEach(medicine => {
+      if (!medicine.isActive) return;
+
+      const startDate = new Date(medicine.startDate);
+
+      getDaySlots(medicine, currentDay).forEach(({ time, slotKey, status }) => {
+        const slot = getSlotDate(currentDay, time);
+        if (slot <= from || slot > to || slot < startDate || status) return;
+
+        missed.push({
+          id: `${medicine.id}-${slotKey}`,
+          medicineId: medicine.id,
+          medicineName: medicine.name,
+          dosage: getCurrentDosage(medicine, currentDay, time),
+          time,
+          slotKey,
+          scheduledAt: slot.toISOString(),
+        });
+      });
     });
+    day.setDate(day.getDate() + 1);
+  }
+
+  return missed;
+};
+
+// Stored settings are merged over the defaults per section, so settings added later get their defaults
+const parseSettings = (stored: string): AppSettings => {
+  const parsedSettings = JSON.parse(stored);
+  return {
+    ...DEFAULT_SETTINGS,
+    ...parsedSettings,
+    maxSnoozes: { ...DEFAULT_SETTINGS.maxSnoozes, ...parsedSettings.maxSnoozes },
+    routine: { ...DEFAULT_SETTINGS.routine, ...parsedSettings.routine },
+    fasting: { ...DEFAULT_SETTINGS.fasting, ...parsedSettings.fasting },
+    prayer: { ...DEFAULT_SETTINGS.prayer, ...parsedSettings.prayer },
+    quietHours: {
+      ...DEFAULT_SETTINGS.quietHours,
+      ...parsedSettings.quietHours,
+      modes: { ...DEFAULT_SETTINGS.quietHours.modes, ...parsedSettings.quietHours?.modes },
+    },
+    sounds: { ...DEFAULT_SETTINGS.sounds, ...parsedSettings.sounds },
+    vibration: { ...DEFAULT_SETTINGS.vibration, ...parsedSettings.vibration },
   };
+};
 
-  // Remove time slot
-  const removeTimeSlot = (index: number) => {
-    if (newMedicine.times.length > 1) {
-      const newTimes = newMedicine.times.filter((_, i) => i !== index);
-      setNewMedicine({
-        ...newMedicine,
-        times: newTimes
+// Check stored medicines for newly missed doses and merge them into the pending list
+const detectMissedDoses = async () => {
+  const now = new Date();
+  const checkUntil = new Date(now.getTime() - MISSED_DOSE_GRACE_MINUTES * 60 * 1000);
+  const [storedMedicines, storedMissed, storedLastCheck] = await Promise.all([
+    AsyncStorage.getItem(STORAGE_KEYS.medicines),
+    AsyncStorage.getItem(STORAGE_KEYS.missedDoses),
+    AsyncStorage.getItem(STORAGE_KEYS.lastMissedCheck),
+  ]);
+
+  const pending: MissedDose[] = storedMissed ? JSON.parse(storedMissed) : [];
+  let newlyMissed: MissedDose[] = [];
+
+  // The first run only sets the starting point, so older history is never reported
+  if (storedLastCheck && storedMedicines) {
+    const lookbackStart = now.getTime() - MISSED_DOSE_LOOKBACK_HOURS * 60 * 60 * 1000;
+    const from = new Date(Math.max(new Date(storedLastCheck).getTime(), lookbackStart));
+    newlyMissed = findMissedDoses(JSON.parse(storedMedicines), from, checkUntil)
+      .filter(dose => !pending.some(existing => existing.id === dose.id));
+  }
+
+  const updated = [...pending, ...newlyMissed];
+  await AsyncStorage.multiSet([
+    [STORAGE_KEYS.missedDoses, JSON.stringify(updated)],
+    [STORAGE_KEYS.lastMissedCheck, checkUntil.toISOString()],
+  ]);
+
+  return { pending: updated, newlyMissed };
+};
+
+// Reschedule from the stored medicines once the one-off notifications are due a top-up
+const refreshMedicineNotifications = async () => {
+  const [[, storedMedicines], [, storedSettings], [, storedLastSync]] = await AsyncStorage.multiGet([
+    STORAGE_KEYS.medicines,
+    STORAGE_KEYS.settings,
+    STORAGE_KEYS.lastNotificationSync,
+  ]);
+  if (!storedMedicines) return;
+  if (storedLastSync && Date.now() - new Date(storedLastSync).getTime() < NOTIFICATION_REFRESH_HOURS * 60 * 60 * 1000) return;
+
+  const settings = storedSettings ? parseSettings(storedSettings) : DEFAULT_SETTINGS;
+  await scheduleMedicineNotifications(JSON.parse(storedMedicines), settings);
+};
+
+// Runs periodically while the app is closed, reports missed doses as a notification and tops up scheduled ones
+TaskManager.defineTask(MISSED_DOSE_TASK, async () => {
+  try {
+    const { pending, newlyMissed } = await detectMissedDoses();
+    if (newlyMissed.length > 0) {
+      await Notifications.scheduleNotificationAsync({
+        content: {
+          title: '⚠️ جرعات فائتة',
+          body: `فاتتك ${pending.length} جرعة، اضغط للمراجعة`,
+          data: { type: 'missed-doses' },
+        },
+        trigger: null,
       });
     }
-  };
+    await refreshMedicineNotifications();
+    return BackgroundTask.BackgroundTaskResult.Success;
+  } catch (error) {
+    console.log('Missed dose task error:', error);
+    return BackgroundTask.BackgroundTaskResult.Failed;
+  }
+});
 
-  // Toggle weekly day
-  const toggleWeeklyDay = (dayIndex: number) => {
-    const currentDays = newMedicine.weeklyDays;
-    const updatedDays = currentDays.includes(dayIndex)
-      ? currentDays.filter(day => day !== dayIndex)
-      : [...currentDays, dayIndex];
-    
-    setNewMedicine({
-      ...newMedicine,
-      weeklyDays: updatedDays
+// Schedule the OS notification that re-rings a snoozed alarm even if the app is closed
+const scheduleSnoozeNotification = (snooze: SnoozedAlarm) =>
+  Notifications.scheduleNotificationAsync({
+    identifier: `snooze-${snooze.id}`,
+    content: {
+      title: '⏰ انتهى التأجيل - حان وقت الدواء',
+      body: snooze.alarm.doses.map(dose => dose.medicineName).join('، '),
+      sound: true,
+      priority: Notifications.AndroidNotificationPriority.MAX,
+      data: { type: 'snooze', snoozeId: snooze.id },
+    },
+    trigger: {
+      type: Notifications.SchedulableTriggerInputTypes.DATE,
+      channelId: NOTIFICATION_CHANNEL_ID,
+      date: new Date(snooze.fireAt),
+    },
+  });
+
+// Remind to refill a set number of days before the stock is forecast to run out
+const scheduleRefillReminder = async (medicine: Medicine) => {
+  const forecast = getStockForecast(medicine, new Date());
+  if (!forecast) return;
+
+  const remindAt = getSlotDate(forecast.runOutDate, REFILL_REMINDER_TIME);
+  remindAt.setDate(remindAt.getDate() - (medicine.refillReminderDays ?? DEFAULT_REFILL_REMINDER_DAYS));
+  if (remindAt.getTime() <= Date.now()) return;
+
+  await Notifications.scheduleNotificationAsync({
+    identifier: `refill-${medicine.id}`,
+    content: {
+      title: `📦 حان وقت إعادة تعبئة ${medicine.name}`,
+      body: `المخزون يكفي حتى ${forecast.runOutDate.toLocaleDateString('ar-EG', { weekday: 'long', day: 'numeric', month: 'long' })}`,
+      data: { type: 'refill', medicineId: medicine.id },
+    },
+    trigger: {
+      type: Notifications.SchedulableTriggerInputTypes.DATE,
+      channelId: REFILL_CHANNEL_ID,
+      date: remindAt,
+    },
+  });
+};
+
+// Warn ahead of each batch's expiry date
+const scheduleExpiryReminders = async (medicine: Medicine) => {
+  for (const batch of medicine.batches || []) {
+    const expiresAt = getSlotDate(new Date(batch.expiryDate), REFILL_REMINDER_TIME);
+    const remindAt = new Date(expiresAt);
+    remindAt.setDate(remindAt.getDate() - EXPIRY_WARNING_DAYS);
+    // Batches added inside the warning window are still flagged at the next reminder time
+    if (remindAt.getTime() <= Date.now()) {
+      const next = getSlotDate(new Date(), REFILL_REMINDER_TIME);
+      if (next.getTime() <= Date.now()) next.setDate(next.getDate() + 1);
+      remindAt.setTime(next.getTime());
+    }
+    if (remindAt.getTime() > expiresAt.getTime()) continue;
+
+    await Notifications.scheduleNotificationAsync({
+      identifier: `expiry-${medicine.id}-${batch.id}`,
+      content: {
+        title: `⏳ عبوة ${medicine.name} تقترب من انتهاء صلاحيتها`,
+        body: `${formatStock(medicine, batch.quantity)}${batch.lotNumber ? ` (تشغيلة ${batch.lotNumber})` : ''} ${getExpiryLabel(daysBetween(remindAt, expiresAt))}`,
+        data: { type: 'expiry', medicineId: medicine.id },
+      },
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.DATE,
+        channelId: REFILL_CHANNEL_ID,
+        date: remindAt,
+      },
     });
-  };
+  }
+};
 
-  // Toggle medicine active status
-  const toggleMedicine = (id: string) => {
-    setMedicines(prev => prev.map(med => 
-      med.id === id ? { ...med, isActive: !med.isActive } : med
-    ));
+// Remind to throw an opened device away on the day it must no longer be used
+const scheduleDeviceReminder = async (medicine: Medicine) => {
+  const device = medicine.device;
+  const discardAt = device && getDeviceDiscardDate(device);
+  if (!device || !discardAt) return;
+  const remindAt = getSlotDate(discardAt, REFILL_REMINDER_TIME);
+  if (remindAt.getTime() <= Date.now()) return;
+
+  await Notifications.scheduleNotificationAsync({
+    identifier: `device-${medicine.id}`,
+    content: {
+      title: `🗑️ حان وقت التخلص من ${DEVICE_KINDS[device.kind].name} ${medicine.name}`,
+      body: `مضى ${device.discardAfterDays} يوماً على فتحه، استخدم عبوة جديدة`,
+      data: { type: 'device', medicineId: medicine.id },
+    },
+    trigger: {
+      type: Notifications.SchedulableTriggerInputTypes.DATE,
+      channelId: REFILL_CHANNEL_ID,
+      date: remindAt,
+    },
+  });
+};
+
+// Warn as soon as a dose takes the device down to its low count
+const notifyDeviceLow = (medicine: Medicine, device: MedicineDevice, remaining: number) =>
+  Notifications.scheduleNotificationAsync({
+    content: {
+      title: `${DEVICE_KINDS[device.kind].icon} ${DEVICE_KINDS[device.kind].name} ${medicine.name} على وشك النفاد`,
+      body: remaining > 0 ? `متبقٍ ${formatStock(medicine, remaining)} فقط` : 'نفد الجهاز، استخدم عبوة جديدة',
+      data: { type: 'device', medicineId: medicine.id },
+    },
+    trigger: { channelId: REFILL_CHANNEL_ID },
+  });
+
+// Scheduled escalation re-rings are keyed by dose slot and step
+const getEscalationNotificationId = (medicineId: string, slotKey: string, step: number) =>
+  `escalation-${medicineId}-${slotKey}-${step}`;
+
+// Drop the escalation re-rings of a dose once it is taken or skipped
+const cancelEscalationNotifications = (medicineId: string, slotKey: string) => {
+  const maxSteps = Math.max(...Object.values(ESCALATION_CONFIG).map(config => config?.maxSteps || 0));
+  return Promise.all(Array.from({ length: maxSteps }, (_, index) =>
+    Notifications.cancelScheduledNotificationAsync(getEscalationNotificationId(medicineId, slotKey, index + 1))
+  ));
+};
+
+// Replace the scheduled dose notifications with the current medicine schedule, keeping snoozes
+const scheduleMedicineNotifications = async (medicineList: Medicine[], settings: AppSettings) => {
+  const { quietHours } = settings;
+  const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+  await Promise.all(
+    scheduled
+      .filter(request => !request.identifier.startsWith('snooze-'))
+      .map(request => Notifications.cancelScheduledNotificationAsync(request.identifier))
+  );
+
+  if (Platform.OS === 'android') {
+    await syncDoseChannels(settings.vibration);
+  }
+
+  // Ringing notifications use the medicine's tone, and both ringing and vibrating ones its priority's vibration
+  const getAlertSound = (medicine: Medicine, alertMode: AlertMode) => {
+    if (alertMode === 'silent') return { sound: false, channelId: ALERT_MODE_CHANNELS.silent };
+    const tone = getNotificationTone(medicine, settings.sounds);
+    return {
+      sound: alertMode === 'ring' && (ALARM_TONES[tone].notificationSound || true),
+      channelId: getDoseChannelId(alertMode, tone, medicine.priority, settings.vibration[medicine.priority]),
+    };
   };
 
-  // Delete medicine with confirmation
-  const deleteMedicine = (id: string) => {
-    Alert.alert(
-      'تأكيد الحذف 🗑️',
-      'هل أنت متأكد من حذف هذا الدواء نهائياً؟',
-      [
-        { text: 'إلغاء', style: 'cancel' },
-        {
-          text: 'حذف',
-          style: 'destructive',
-          onPress: () => {
-            setMedicines(prev => prev.filter(med => med.id !== id));
-            Alert.alert('تم الحذف ✅', 'تم حذف الدواء من قائمة التذكيرات');
-          },
-        },
-      ]
-    );
+  // Doses inside quiet hours go to the quieter channel their priority allows
+  const doseNotification = (medicine: Medicine, time: string, day: Date) => {
+    const alertMode = getAlertMode(medicine.priority, getSlotDate(day, time), quietHours);
+    const { sound, channelId } = getAlertSound(medicine, alertMode);
+    const content: Notifications.NotificationContentInput = {
+      title: `💊 حان وقت الدواء: ${medicine.name}`,
+      body: getCurrentDosage(medicine, day, time),
+      sound,
+      priority: alertMode === 'ring'
+        ? Notifications.AndroidNotificationPriority.MAX
+        : Notifications.AndroidNotificationPriority.DEFAULT,
+      data: {
+        medicineId: medicine.id,
+        medicineName: medicine.name,
+        dosage: getCurrentDosage(medicine, day, time),
+        time,
+      },
+    };
+    return { content, channelId };
   };
 
-  // Format time display
-  const formatTime = (time: string) => {
-    const [hours, minutes] = time.split(':');
-    const hour12 = parseInt(hours) > 12 ? parseInt(hours) - 12 : parseInt(hours);
-    const ampm = parseInt(hours) >= 12 ? 'مساءً' : 'صباحاً';
-    return `${hour12 === 0 ? 12 : hour12}:${minutes} ${ampm}`;
+  // Pre-reminders are gentle, and silent inside quiet hours
+  const preReminderNotification = (medicine: Medicine, preReminder: PreReminder, at: Date, day: Date, time: string) => {
+    const quiet = isInQuietHours(quietHours, at);
+    const content: Notifications.NotificationContentInput = {
+      title: `🔔 بعد ${preReminder.minutesBefore} دقيقة: ${medicine.name}`,
+      body: [getCurrentDosage(medicine, day, time), preReminder.note].filter(Boolean).join(' · '),
+      sound: !quiet,
+      data: { type: 'pre-reminder', medicineId: medicine.id },
+    };
+    return { content, channelId: quiet ? ALERT_MODE_CHANNELS.silent : PRE_REMINDER_CHANNEL_ID };
   };
 
-  // Get time until next dose
-  const getTimeUntilNext = (medicine: Medicine) => {
-    const now = new Date();
-    const currentTime = now.getHours() * 60 + now.getMinutes();
-    
-    if (medicine.frequency === 'weekly' && !isWeeklyDayActive(medicine)) {
-      return 'ليس اليوم';
+  // Re-rings after an unanswered high or critical dose, so escalation also happens while the app is closed
+  const scheduleEscalationsAfter = async (medicine: Medicine, slot: Date) => {
+    const config = ESCALATION_CONFIG[medicine.priority];
+    if (!config || slot.getTime() - Date.now() > ESCALATION_NOTIFICATION_HOURS * 60 * 60 * 1000) return;
+    const time = toTimeString(slot);
+    const slotKey = getSlotKey(slot, time);
+    if (medicine.slotStatuses?.[slotKey]) return;
+    const dosage = getCurrentDosage(medicine, slot, time);
+
+    for (let step = 1; step <= config.maxSteps; step++) {
+      const at = new Date(slot.getTime() + step * config.intervalMinutes * 60 * 1000);
+      const { sound, channelId } = getAlertSound(medicine, getAlertMode(medicine.priority, at, quietHours));
+      await Notifications.scheduleNotificationAsync({
+        identifier: getEscalationNotificationId(medicine.id, slotKey, step),
+        content: {
+          title: '🚨 جرعة مهمة لم تُسجَّل بعد',
+          body: `${medicine.name} - ${dosage}`,
+          sound,
+          sticky: true,
+          autoDismiss: false,
+          priority: Notifications.AndroidNotificationPriority.MAX,
+          data: { type: 'escalation', medicineId: medicine.id, medicineName: medicine.name, dosage, time },
+        },
+        trigger: {
+          type: Notifications.SchedulableTriggerInputTypes.DATE,
+          channelId,
+          date: at,
+        },
+      });
     }
-    
-    const nextTimes = medicine.times.map(time => {
-      const [hours, minutes] = time.split(':').map(Number);
-      const timeInMinutes = hours * 60 + minutes;
-      return timeInMinutes > currentTime ? timeInMinutes : timeInMinutes + 24 * 60;
+  };
+
+  // One-off pre-reminder ahead of a dose at a known date
+  const schedulePreReminderBefore = async (medicine: Medicine, slot: Date) => {
+    if (!medicine.preReminder) return;
+    const at = new Date(slot.getTime() - medicine.preReminder.minutesBefore * 60 * 1000);
+    if (at.getTime() <= Date.now()) return;
+    const { content, channelId } = preReminderNotification(medicine, medicine.preReminder, at, slot, toTimeString(slot));
+    await Notifications.scheduleNotificationAsync({
+      content,
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.DATE,
+        channelId,
+        date: at,
+      },
     });
-    
-    const nextTime = Math.min(...nextTimes);
-    const timeDiff = nextTime - currentTime;
-    const hoursLeft = Math.floor(timeDiff / 60);
-    const minutesLeft = timeDiff % 60;
-    
-    if (hoursLeft <= 0) {
-      return `خلال ${minutesLeft} دقيقة`;
-    }
-    return `خلال ${hoursLeft} ساعة و ${minutesLeft} دقيقة`;
   };
 
-  // Handle time picker
-  const onTimeChange = (event: any, selectedTime?: Date) => {
-    setShowTimePicker(Platform.OS === 'ios');
-    if (selectedTime) {
-      setSelectedTime(selectedTime);
-      const timeString = `${selectedTime.getHours().toString().padStart(2, '0')}:${selectedTime.getMinutes().toString().padStart(2, '0')}`;
-      const newTimes = [...newMedicine.times];
-      newTimes[currentTimeIndex] = timeString;
-      setNewMedicine({...newMedicine, times: newTimes});
-      if (validationErrors.time) {
-        setValidationErrors({...validationErrors, time: undefined});
+  for (const medicine of medicineList) {
+    if (!medicine.isActive) continue;
+    await scheduleExpiryReminders(medicine);
+    await scheduleDeviceReminder(medicine);
+    if (medicine.frequency === 'asNeeded') continue;
+    // The background refresh sees stored medicines whose course ran out while the app was closed
+    if (isCourseComplete(medicine, new Date())) continue;
+    await scheduleRefillReminder(medicine);
+
+    // Interval medicines only know their next dose, re-synced after every intake
+    if (medicine.frequency === 'interval') {
+      const next = getNextIntervalDose(medicine);
+      if (next.getTime() > Date.now()) {
+        const { content, channelId } = doseNotification(medicine, toTimeString(next), next);
+        await Notifications.scheduleNotificationAsync({
+          content,
+          trigger: {
+            type: Notifications.SchedulableTriggerInputTypes.DATE,
+            channelId,
+            date: next,
+          },
+        });
+        await schedulePreReminderBefore(medicine, next);
+        await scheduleEscalationsAfter(medicine, next);
       }
+      continue;
     }
-  };
 
-  // Handle input changes
-  const handleNameChange = (text: string) => {
-    setNewMedicine({...newMedicine, name: text});
-    if (validationErrors.name) {
-      setValidationErrors({...validationErrors, name: undefined});
-    }
-  };
+    // Repeating triggers can't stop or change by themselves, so a course switches to one-off triggers
+    // once its last day or next taper step is within reach, and nothing rings with a stale dose
+    const courseEndsSoon = !!medicine.course?.endDate &&
+      daysBetween(new Date(), new Date(medicine.course.endDate)) < CYCLIC_NOTIFICATION_DAYS;
+    const nextTaperChange = getNextTaperChange(medicine, new Date());
+    const taperChangesSoon = !!nextTaperChange && daysBetween(new Date(), nextTaperChange) < CYCLIC_NOTIFICATION_DAYS;
+    // Prayer times move a little every day, so prayer-relative doses are worked out per day as well
+    const prayerAnchored = !medicine.regularTimes &&
+      !!medicine.timeAnchors?.some(anchor => anchor && isPrayerAnchor(anchor.anchor));
+    if (medicine.frequency === 'cyclic' || courseEndsSoon || taperChangesSoon || prayerAnchored) {
+      for (let offset = 0; offset < CYCLIC_NOTIFICATION_DAYS; offset++) {
+        const day = new Date();
+        day.setDate(day.getDate() + offset);
+        if (!isScheduledOnDay(medicine, day)) continue;
 
-  const handleDosageChange = (text: string) => {
-    setNewMedicine({...newMedicine, dosage: text});
-    if (validationErrors.dosage) {
-      setValidationErrors({...validationErrors, dosage: undefined});
+        for (const time of getTimesOnDay(medicine, settings, day)) {
+          const slot = getSlotDate(day, time);
+          if (slot.getTime() <= Date.now()) continue;
+          const { content, channelId } = doseNotification(medicine, time, day);
+          await Notifications.scheduleNotificationAsync({
+            content,
+            trigger: {
+              type: Notifications.SchedulableTriggerInputTypes.DATE,
+              channelId,
+              date: slot,
+            },
+          });
+          await schedulePreReminderBefore(medicine, slot);
+          await scheduleEscalationsAfter(medicine, slot);
+        }
+      }
+      continue;
     }
-  };
 
-  const handleStockChange = (text: string) => {
-    setNewMedicine({...newMedicine, stock: text});
-    if (validationErrors.stock) {
-      setValidationErrors({...validationErrors, stock: undefined});
+    for (const time of medicine.times) {
+      const [hour, minute] = time.split(':').map(Number);
+      const { content, channelId } = doseNotification(medicine, time, new Date());
+
+      // Escalation re-rings are one-off, for the next occurrences only
+      for (let offset = 0; offset <= 1; offset++) {
+        const day = new Date();
+        day.setDate(day.getDate() + offset);
+        const slot = getSlotDate(day, time);
+        if (isScheduledOnDay(medicine, day) && slot.getTime() > Date.now()) {
+          await scheduleEscalationsAfter(medicine, slot);
+        }
+      }
+
+      // A pre-reminder before an early-morning dose falls on the previous day
+      const preMinutes = medicine.preReminder ? toMinutes(time) - medicine.preReminder.minutesBefore : 0;
+      const preTime = fromMinutes(preMinutes);
+      const [preHour, preMinute] = preTime.split(':').map(Number);
+      const pre = medicine.preReminder &&
+        preReminderNotification(medicine, medicine.preReminder, getSlotDate(new Date(), preTime), new Date(), time);
+
+      if (medicine.frequency === 'weekly') {
+        for (const day of medicine.weeklyDays || []) {
+          await Notifications.scheduleNotificationAsync({
+            content,
+            trigger: {
+              type: Notifications.SchedulableTriggerInputTypes.WEEKLY,
+              channelId,
+              weekday: day + 1,
+              hour,
+              minute,
+            },
+          });
+          if (pre) {
+            await Notifications.scheduleNotificationAsync({
+              content: pre.content,
+              trigger: {
+                type: Notifications.SchedulableTriggerInputTypes.WEEKLY,
+                channelId: pre.channelId,
+                weekday: (day + (preMinutes < 0 ? 6 : 0)) % 7 + 1,
+                hour: preHour,
+                minute: preMinute,
+              },
+            });
+          }
+        }
+      } else {
+        await Notifications.scheduleNotificationAsync({
+          content,
+          trigger: {
+            type: Notifications.SchedulableTriggerInputTypes.DAILY,
+            channelId,
+            hour,
+            minute,
+          },
+        });
+        if (pre) {
+          await Notifications.scheduleNotificationAsync({
+            content: pre.content,
+            trigger: {
+              type: Notifications.SchedulableTriggerInputTypes.DAILY,
+              channelId: pre.channelId,
+              hour: preHour,
+              minute: preMinute,
+            },
+          });
+        }
+      }
     }
-  };
+  }
 
-  // Filter and sort medicines
-  const getFilteredAndSortedMedicines = () => {
-    let filtered = medicines;
-    
-    // Filter by category
-    if (selectedCategory !== 'all') {
-      filtered = filtered.filter(med => med.category === selectedCategory);
+  await AsyncStorage.setItem(STORAGE_KEYS.lastNotificationSync, new Date().toISOString());
+};
+
+const MedicineReminderApp: React.FC = () => {
+  const [medicines, setMedicines] = useState<Medicine[]>([]);
+  const [showAddForm, setShowAddForm] = useState(false);
+  const [validationErrors, setValidationErrors] = useState<ValidationErrors>({});
+  const [selectedCategory, setSelectedCategory] = useState<string>('all');
+  const [sortBy, setSortBy] = useState<'name' | 'time' | 'priority' | 'category'>('time');
+  const [newMedicine, setNewMedicine] = useState({
+    name: '',
+    dosage: '',
+    doseAmount: 1,
+    doseForm: 'tablet' as DoseForm,
+    times: [''],
+    timeAnchors: [null] as (DoseTimeAnchor | null)[],
+    // null follows doseAmount
+    timeAmounts: [null] as (number | null)[],
+    frequency: 'daily' as MedicineFrequency,
+    weeklyDays: [] as number[],
+    intervalHours: '',
+    asNeededMinInterval: '4',
+    asNeededMaxDaily: '4',
+    cycleType: 'everyNDays' as CycleType,
+    cycleInterval: '2',
+    cycleOnDays: '21',
+    cycleOffDays: '7',
+    cycleMonthDays: '5',
+    cycleStartDate: new Date(),
+    courseType: 'none' as CourseType,
+    courseEndDate: new Date(Date.now() + 6 * 24 * 60 * 60 * 1000),
+    courseTotalDoses: '',
+    taperEnabled: false,
+    taperSteps: [{ dosage: '', days: '' }],
+    // Expiry stays empty until picked
+    batches: [{ quantity: '', expiryDate: null as Date | null, lotNumber: '' }],
+    stockAlert: '',
+    refillReminderDays: String(DEFAULT_REFILL_REMINDER_DAYS),
+    packSize: '',
+    category: 'other' as MedicineCategory,
+    priority: 'medium' as 'low' | 'medium' | 'high' | 'critical',
+    // null follows the category's sound
+    sound: null as AlarmSound | null,
+    preReminderMinutes: 0,
+    preReminderNote: '',
+    deviceKind: null as DeviceKind | null,
+    deviceCapacity: '',
+    deviceDiscardDays: '',
+    deviceOpenedAt: new Date(),
+    deviceLowAlert: '',
+    notes: '',
+  });
+  const [showTimePicker, setShowTimePicker] = useState(false);
+  const [currentTimeIndex, setCurrentTimeIndex] = useState(0);
+  const [selectedTime, setSelectedTime] = useState(new Date());
+  const [showCycleStartPicker, setShowCycleStartPicker] = useState(false);
+  const [batchExpiryPicker, setBatchExpiryPicker] = useState<number | null>(null);
+  const [showCourseEndPicker, setShowCourseEndPicker] = useState(false);
+  const [showDeviceOpenedPicker, setShowDeviceOpenedPicker] = useState(false);
+  const [routinePickerAnchor, setRoutinePickerAnchor] = useState<RoutineAnchor | null>(null);
+  const [customLocation, setCustomLocation] = useState({ latitude: '', longitude: '' });
+  const [fastingPicker, setFastingPicker] = useState<'suhoor' | 'iftar' | 'startDate' | 'endDate' | null>(null);
+  const [quietHoursPicker, setQuietHoursPicker] = useState<'start' | 'end' | null>(null);
+  const [vibrationEditor, setVibrationEditor] = useState<MedicinePriority | null>(null);
+  const [activeAlarm, setActiveAlarm] = useState<ActiveAlarm | null>(null);
+  const [showAlarmModal, setShowAlarmModal] = useState(false);
+  const [escalationStep, setEscalationStep] = useState(0);
+  const [refreshing, setRefreshing] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
+  const [showSettings, setShowSettings] = useState(false);
+  const [snoozedAlarms, setSnoozedAlarms] = useState<SnoozedAlarm[]>([]);
+  const [appState, setAppState] = useState(AppState.currentState);
+  const [missedDoses, setMissedDoses] = useState<MissedDose[]>([]);
+  const [showMissedSheet, setShowMissedSheet] = useState(false);
+  const [intakeEvents, setIntakeEvents] = useState<IntakeEvent[]>([]);
+  const [restocks, setRestocks] = useState<RestockEntry[]>([]);
+  const [restockMedicineId, setRestockMedicineId] = useState<string | null>(null);
+  const [restockForm, setRestockForm] = useState({
+    quantity: '',
+    expiryDate: null as Date | null,
+    lotNumber: '',
+    pharmacy: '',
+    price: '',
+  });
+  const [showRestockExpiryPicker, setShowRestockExpiryPicker] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [historyMedicineId, setHistoryMedicineId] = useState<string>('all');
+  const [historyDate, setHistoryDate] = useState(new Date());
+  const lastNotificationResponse = Notifications.useLastNotificationResponse();
+  
+  // Sound and timer refs
+  const soundRef = useRef<Audio.Sound | null>(null);
+  const previewSoundRef = useRef<Audio.Sound | null>(null);
+  const fadeRef = useRef<NodeJS.Timeout | null>(null);
+  const vibrationRef = useRef<NodeJS.Timeout | null>(null);
+  const alarmCheckRef = useRef<NodeJS.Timeout | null>(null);
+  const notificationSyncRef = useRef<Promise<void>>(Promise.resolve());
+  const handledResponseRef = useRef<string | null>(null);
+  const activeAlarmRef = useRef<ActiveAlarm | null>(null);
+  // Set while the open session is only a silent notification, with no modal, sound or vibration
+  const silentSessionRef = useRef(false);
+  const snoozeTimersRef = useRef<Map<string, NodeJS.Timeout>>(new Map());
+  const alarmedSlotsRef = useRef<Set<string>>(new Set());
+  
+  // Animation values
+  const pulseAnimation = useRef(new RNAnimated.Value(1)).current;
+  const fadeAnimation = useRef(new RNAnimated.Value(0)).current;
+  const alarmScaleAnimation = useRef(new RNAnimated.Value(0)).current;
+  const headerAnimation = useRef(new RNAnimated.Value(0)).current;
+  const cardAnimations = useRef<RNAnimated.Value[]>([]).current;
+  const floatingAnimation = useRef(new RNAnimated.Value(0)).current;
+
+  // Check for missed doses and open the sheet if any are pending
+  const checkMissedDoses = useCallback(async () => {
+    try {
+      const { pending } = await detectMissedDoses();
+      setMissedDoses(pending);
+      if (pending.length > 0) {
+        setShowMissedSheet(true);
+      }
+    } catch (error) {
+      console.log('Missed dose check error:', error);
     }
-    
-    // Sort medicines
-    filtered = [...filtered].sort((a, b) => {
-      switch (sortBy) {
-        case 'name':
-          return a.name.localeCompare(b.name, 'ar');
-        case 'priority':
-          const priorityOrder = { critical: 4, high: 3, medium: 2, low: 1 };
-          return priorityOrder[b.priority] - priorityOrder[a.priority];
-        case 'category':
-          return a.category.localeCompare(b.category);
-        case 'time':
-        default:
-          if (a.times[0] && b.times[0]) {
-            return a.times[0].localeCompare(b.times[0]);
-          }
-          return 0;
+  }, []);
+
+  // Re-sync OS notifications, one run at a time
+  const syncNotifications = useCallback(() => {
+    notificationSyncRef.current = notificationSyncRef.current
+      .then(() => scheduleMedicineNotifications(medicines, settings))
+      .catch(error => console.log('Notification scheduling error:', error));
+  }, [medicines, settings]);
+
+  // Handle app state changes
+  useEffect(() => {
+    const handleAppStateChange = (nextAppState: AppStateStatus) => {
+      const previousAppState = appState;
+      setAppState(nextAppState);
+      
+      if (previousAppState.match(/inactive|background/) && nextAppState === 'active') {
+        checkMissedDoses();
+        // One-off notifications may have run out while the app was away
+        if (!isLoading) {
+          syncNotifications();
+        }
       }
-    });
-    
-    return filtered;
-  };
+    };
 
-  // Get enhanced statistics
-  const getStatistics = () => {
-    const activeMedicines = medicines.filter(med => med.isActive).length;
-    const totalMedicines = medicines.length;
-    const todayTaken = medicines.filter(med => {
-      if (!med.lastTaken) return false;
-      const lastTaken = new Date(med.lastTaken);
-      const today = new Date();
-      return lastTaken.toDateString() === today.toDateString();
-    }).length;
-
-    const lowStockMedicines = medicines.filter(med => 
-      med.stock !== undefined && 
-      med.stockAlert !== undefined && 
-      med.stock <= med.stockAlert
-    ).length;
+    const subscription = AppState.addEventListener('change', handleAppStateChange);
+    return () => subscription?.remove();
+  }, [appState, checkMissedDoses, syncNotifications, isLoading]);
 
-    const criticalMedicines = medicines.filter(med => med.priority === 'critical').length;
+  // Register the background missed-dose check
+  useEffect(() => {
+    const registerMissedDoseTask = async () => {
+      try {
+        const isRegistered = await TaskManager.isTaskRegisteredAsync(MISSED_DOSE_TASK);
+        if (!isRegistered) {
+          await BackgroundTask.registerTaskAsync(MISSED_DOSE_TASK, { minimumInterval: 30 });
+        }
+      } catch (error) {
+        console.log('Background task registration error:', error);
+      }
+    };
 
-    // Category breakdown
-    const categoryStats: Record<string, number> = {};
-    medicines.forEach(med => {
-      categoryStats[med.category] = (categoryStats[med.category] || 0) + 1;
-    });
+    registerMissedDoseTask();
+  }, []);
 
-    return { 
-      activeMedicines, 
-      totalMedicines, 
-      todayTaken, 
-      lowStockMedicines, 
-      criticalMedicines,
-      categoryStats
+  // Initialize audio settings
+  useEffect(() => {
+    const initializeAudio = async () => {
+      try {
+        await Audio.setAudioModeAsync({
+          allowsRecordingIOS: false,
+          staysActiveInBackground: true,
+          playsInSilentModeIOS: true,
+          shouldDuckAndroid: true,
+          playThroughEarpieceAndroid: false,
+        });
+      } catch (error) {
+        console.log('Audio initialization error:', error);
+      }
     };
-  };
 
-  const stats = getStatistics();
-  const filteredMedicines = getFilteredAndSortedMedicines();
+    initializeAudio();
+  }, []);
 
-  if (isLoading) {
-    return (
-      <LinearGradient
-        colors={['#667EEA', '#764BA2'] as [string, string]}
-        style={styles.container}
-      >
-        <SafeAreaView style={styles.container}>
-          <StatusBar barStyle="light-content" backgroundColor="#667EEA" />
-          <View style={styles.loadingContainer}>
-            <RNAnimated.View style={[styles.loadingContent, { opacity: fadeAnimation }]}>
-              <RNAnimated.View style={[
-                styles.loadingIconContainer,
-                {
-                  transform: [{
-                    rotate: floatingAnimation.interpolate({
-                      inputRange: [0, 1],
-                      outputRange: ['0deg', '360deg']
-                    })
-                  }]
-                }
-              ]}>
-                <Text style={styles.loadingIcon}>💊</Text>
-              </RNAnimated.View>
-              <Text style={styles.loadingText}>جاري التحميل...</Text>
-              <View style={styles.loadingBar}>
-                <RNAnimated.View style={[
-                  styles.loadingProgress,
-                  {
-                    transform: [{
-                      scaleX: fadeAnimation.interpolate({
-                        inputRange: [0, 1],
-                        outputRange: [0, 1]
-                      })
-                    }]
-                  }
-                ]} />
-              </View>
-            </RNAnimated.View>
-          </View>
-        </SafeAreaView>
-      </LinearGradient>
-    );
-  }
+  // Initialize notification permissions and the Android alarm channel
+  useEffect(() => {
+    const initializeNotifications = async () => {
+      try {
+        if (Platform.OS === 'android') {
+          await Notifications.setNotificationChannelAsync(NOTIFICATION_CHANNEL_ID, {
+            name: 'تذكير الأدوية',
+            importance: Notifications.AndroidImportance.MAX,
+            sound: 'default',
+            vibrationPattern: [0, 1000, 500, 1000, 500, 1000],
+            lockscreenVisibility: Notifications.AndroidNotificationVisibility.PUBLIC,
+            bypassDnd: true,
+          });
+          await Notifications.setNotificationChannelAsync(ALERT_MODE_CHANNELS.vibrate, {
+            name: 'تذكير الأدوية - اهتزاز',
+            importance: Notifications.AndroidImportance.HIGH,
+            sound: null,
+            vibrationPattern: [0, 1000, 500, 1000],
+            lockscreenVisibility: Notifications.AndroidNotificationVisibility.PUBLIC,
+          });
+          await Notifications.setNotificationChannelAsync(ALERT_MODE_CHANNELS.silent, {
+            name: 'تذكير الأدوية - صامت',
+            importance: Notifications.AndroidImportance.DEFAULT,
+            sound: null,
+            enableVibrate: false,
+            lockscreenVisibility: Notifications.AndroidNotificationVisibility.PUBLIC,
+          });
+          await Notifications.setNotificationChannelAsync(REFILL_CHANNEL_ID, {
+            name: 'تذكيرات المخزون والصلاحية',
+            importance: Notifications.AndroidImportance.DEFAULT,
+            sound: 'default',
+            lockscreenVisibility: Notifications.AndroidNotificationVisibility.PUBLIC,
+          });
+          await Notifications.setNotificationChannelAsync(PRE_REMINDER_CHANNEL_ID, {
+            name: 'تذكير مسبق قبل الجرعة',
+            importance: Notifications.AndroidImportance.DEFAULT,
+            sound: 'default',
+            vibrationPattern: [0, 300],
+            lockscreenVisibility: Notifications.AndroidNotificationVisibility.PUBLIC,
+          });
+        }
 
-  return (
-    <SafeAreaView style={styles.container}>
-      <StatusBar barStyle="light-content" backgroundColor="#667EEA" />
-      
-      {/* Enhanced Header with Gradient */}
-      <LinearGradient
-        colors={['#667EEA', '#764BA2', '#667EEA'] as [string, string, string]}
-        start={{ x: 0, y: 0 }}
-        end={{ x: 1, y: 1 }}
-        style={styles.headerGradient}
-      >
-        <RNAnimated.View style={[
-          styles.header,
-          {
-            opacity: headerAnimation,
-            transform: [{
-              translateY: headerAnimation.interpolate({
-                inputRange: [0, 1],
-                outputRange: [-50, 0]
-              })
-            }]
+        const { status } = await Notifications.getPermissionsAsync();
+        if (status !== 'granted') {
+          const { status: requestedStatus } = await Notifications.requestPermissionsAsync();
+          if (requestedStatus !== 'granted') {
+            Alert.alert(
+              '⚠️ الإشعارات معطلة',
+              'لن تصلك تذكيرات الأدوية عند إغلاق التطبيق. يرجى تفعيل الإشعارات من الإعدادات'
+            );
           }
-        ]}>
-          {/* Floating Decorative Elements */}
-          <RNAnimated.View style={[
-            styles.floatingDecor,
-            styles.floatingDecor1,
-            {
-              transform: [{
-                translateY: floatingAnimation.interpolate({
-                  inputRange: [0, 1],
-                  outputRange: [0, -10]
-                })
-              }]
-            }
-          ]}>
-            <Text style={styles.decorEmoji}>✨</Text>
-          </RNAnimated.View>
-          
-          <RNAnimated.View style={[
-            styles.floatingDecor,
-            styles.floatingDecor2,
-            {
-              transform: [{
-                translateY: floatingAnimation.interpolate({
-                  inputRange: [0, 1],
-                  outputRange: [0, 15]
-                })
-              }]
-            }
-          ]}>
-            <Text style={styles.decorEmoji}>🏥</Text>
-          </RNAnimated.View>
+        }
+      } catch (error) {
+        console.log('Notification initialization error:', error);
+      }
+    };
 
-          <View style={styles.headerContent}>
-            <View style={styles.headerTitleContainer}>
-              <Text style={styles.headerTitle}>💊 تذكير الأدوية</Text>
-              <Text style={styles.headerSubtitle}>اعتني بصحتك بذكاء وعناية</Text>
-            </View>
-            
-            {/* Enhanced Statistics Dashboard */}
-            <View style={styles.statsContainer}>
-              <View style={styles.statsGrid}>
-                <View style={[styles.statCard, styles.primaryStatCard]}>
-                  <LinearGradient
-                    colors={['#10B981', '#059669'] as [string, string]}
-                    style={styles.statCardGradient}
-                  >
-                    <Text style={styles.statNumber}>{stats.activeMedicines}</Text>
-                    <Text style={styles.statLabel}>نشط</Text>
-                    <Text style={styles.statIcon}>🟢</Text>
-                  </LinearGradient>
-                </View>
-                
-                <View style={[styles.statCard, styles.secondaryStatCard]}>
-                  <LinearGradient
-                    colors={['#3B82F6', '#2563EB'] as [string, string]}
-                    style={styles.statCardGradient}
-                  >
+    initializeNotifications();
+  }, []);
+
+  // Enhanced initialization animations
+  useEffect(() => {
+    RNAnimated.parallel([
+      RNAnimated.timing(fadeAnimation, {
+        toValue: 1,
+        duration: 1000,
+        useNativeDriver: true,
+      }),
+      RNAnimated.timing(headerAnimation, {
+        toValue: 1,
+        duration: 1200,
+        useNativeDriver: true,
+      }),
+    ]).start();
+
+    const floatingLoop = RNAnimated.loop(
+      RNAnimated.sequence([
+        RNAnimated.timing(floatingAnimation, {
+          toValue: 1,
+          duration: 3000,
+          useNativeDriver: true,
+        }),
+        RNAnimated.timing(floatingAnimation, {
+          toValue: 0,
+          duration: 3000,
+          useNativeDriver: true,
+        }),
+      ])
+    );
+    floatingLoop.start();
+
+    return () => floatingLoop.stop();
+  }, [fadeAnimation, headerAnimation, floatingAnimation]);
+
+  // card animations
+  useEffect(() => {
+  if (medicines.length > 0) {
+    const animations = medicines.map((_, index) => {
+      if (!cardAnimations[index]) {
+        cardAnimations[index] = new RNAnimated.Value(0);
+      }
+      return RNAnimated.timing(cardAnimations[index], {
+        toValue: 1,
+        duration: 500,
+        delay: index * 100,
+        useNativeDriver: true,
+      });
+    });
+
+    RNAnimated.stagger(100, animations).start();
+  }
+}, [medicines, cardAnimations]);
+
+
+  // Enhanced pulse animation for alarm
+  useEffect(() => {
+    if (showAlarmModal) {
+      RNAnimated.spring(alarmScaleAnimation, {
+        toValue: 1,
+        tension: 100,
+        friction: 8,
+        useNativeDriver: true,
+      }).start();
+
+      const pulse = RNAnimated.loop(
+        RNAnimated.sequence([
+          RNAnimated.timing(pulseAnimation, {
+            toValue: 1.2,
+            duration: 800,
+            useNativeDriver: true,
+          }),
+          RNAnimated.timing(pulseAnimation, {
+            toValue: 0.9,
+            duration: 800,
+            useNativeDriver: true,
+          }),
+          RNAnimated.timing(pulseAnimation, {
+            toValue: 1,
+            duration: 400,
+            useNativeDriver: true,
+          }),
+        ])
+      );
+      pulse.start();
+      return () => {
+        pulse.stop();
+        alarmScaleAnimation.setValue(0);
+      };
+    }
+  }, [showAlarmModal, pulseAnimation, alarmScaleAnimation]);
+
+  // Create alarm sound using expo-av; a picked file that can no longer be loaded falls back to the default tone
+  const createAlarmSound = useCallback(async (alarmSound: AlarmSound, volume = 1.0) => {
+    const status = { shouldPlay: false, isLooping: true, volume };
+    if (alarmSound.type === 'file') {
+      try {
+        const { sound } = await Audio.Sound.createAsync({ uri: alarmSound.uri }, status);
+        return sound;
+      } catch (error) {
+        console.log('Error loading picked sound, using the default tone:', error);
+      }
+    }
+
+    try {
+      const tone = ALARM_TONES[alarmSound.type === 'tone' ? alarmSound.tone : DEFAULT_ALARM_TONE];
+      const { sound } = await Audio.Sound.createAsync(tone.asset, status);
+      return sound;
+    } catch (error) {
+      console.log('Error creating sound, using vibration only:', error);
+      return null;
+    }
+  }, []);
+
+  const stopPreviewSound = useCallback(async () => {
+    const sound = previewSoundRef.current;
+    previewSoundRef.current = null;
+    if (!sound) return;
+    try {
+      await sound.stopAsync();
+      await sound.unloadAsync();
+    } catch (error) {
+      console.log('Error stopping preview:', error);
+    }
+  }, []);
+
+  // Play alarm sound, optionally rising from a low volume over fadeInSeconds
+  const playAlarmSound = useCallback(async (alarmSound: AlarmSound, volume = 1.0, fadeInSeconds = 0) => {
+    try {
+      const startVolume = fadeInSeconds > 0 ? volume * 0.1 : volume;
+      const sound = await createAlarmSound(alarmSound, startVolume);
+      if (sound) {
+        soundRef.current = sound;
+        await sound.playAsync();
+
+        if (fadeInSeconds > 0) {
+          const startedAt = Date.now();
+          fadeRef.current = setInterval(() => {
+            const progress = Math.min((Date.now() - startedAt) / (fadeInSeconds * 1000), 1);
+            sound.setVolumeAsync(startVolume + (volume - startVolume) * progress)
+              .catch(error => console.log('Error fading in sound:', error));
+            if (progress >= 1 && fadeRef.current) {
+              clearInterval(fadeRef.current);
+              fadeRef.current = null;
+            }
+          }, 1000) as unknown as NodeJS.Timeout;
+        }
+        
+        setTimeout(async () => {
+          if (soundRef.current) {
+            try {
+              await soundRef.current.stopAsync();
+              await soundRef.current.unloadAsync();
+            } catch (e) {
+              console.log('Error stopping sound:', e);
+            }
+            soundRef.current = null;
+          }
+        }, 60000);
+      }
+    } catch (error) {
+      console.log('Error playing sound:', error);
+    }
+  }, [createAlarmSound]);
+
+  // Stop alarm sound
+  const stopAlarmSound = useCallback(async () => {
+    if (fadeRef.current) {
+      clearInterval(fadeRef.current);
+      fadeRef.current = null;
+    }
+    try {
+      if (soundRef.current) {
+        await soundRef.current.stopAsync();
+        await soundRef.current.unloadAsync();
+        soundRef.current = null;
+      }
+    } catch (error) {
+      console.log('Error stopping sound:', error);
+    }
+  }, []);
+
+  // Append an event to the intake history
+  const recordIntakeEvent = useCallback((
+    dose: Pick<IntakeEvent, 'medicineId' | 'medicineName' | 'dosage' | 'slotKey' | 'stockUsed'>,
+    action: IntakeAction,
+    snoozeCount = 0,
+    escalationStep?: number
+  ) => {
+    const event: IntakeEvent = {
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      medicineId: dose.medicineId,
+      medicineName: dose.medicineName,
+      dosage: dose.dosage,
+      slotKey: dose.slotKey,
+      scheduledAt: getSlotDateFromKey(dose.slotKey).toISOString(),
+      actualAt: new Date().toISOString(),
+      action,
+      snoozeCount,
+      escalationStep,
+      stockUsed: dose.stockUsed,
+    };
+    setIntakeEvents(prev => [...prev, event]);
+  }, []);
+
+  // Mark a dose slot as taken and update stock. Without a slot, the open slot closest to now is used
+  const markAsTaken = useCallback((
+    id: string,
+    { slotKey, snoozeCount = 0, silent = false }: { slotKey?: string; snoozeCount?: number; silent?: boolean } = {}
+  ) => {
+    const medicine = medicines.find(med => med.id === id);
+    if (!medicine) return;
+
+    let targetSlot = slotKey;
+    if (!targetSlot && medicine.frequency === 'interval') {
+      const next = getNextIntervalDose(medicine);
+      targetSlot = getSlotKey(next, toTimeString(next));
+    }
+    if (!targetSlot) {
+      const now = new Date();
+      const todaySlots = getDaySlots(medicine, now);
+      const openSlots = todaySlots.filter(slot => !slot.status);
+
+      if (todaySlots.length === 0) {
+        Alert.alert('تنبيه', 'لا توجد جرعات مجدولة لهذا الدواء اليوم');
+        return;
+      }
+      if (openSlots.length === 0) {
+        Alert.alert('تم ✅', 'تم تسجيل جميع جرعات اليوم مسبقاً');
+        return;
+      }
+
+      const distance = (time: string) => Math.abs(getSlotDate(now, time).getTime() - now.getTime());
+      targetSlot = openSlots.reduce((closest, slot) =>
+        distance(slot.time) < distance(closest.time) ? slot : closest
+      ).slotKey;
+    }
+
+    if (medicine.slotStatuses?.[targetSlot] === 'taken') return;
+    const takenSlot = targetSlot;
+    const slotDate = getSlotDateFromKey(takenSlot);
+    cancelEscalationNotifications(medicine.id, takenSlot)
+      .catch(error => console.log('Error cancelling escalation notifications:', error));
+
+    recordIntakeEvent({
+      medicineId: medicine.id,
+      medicineName: medicine.name,
+      dosage: getCurrentDosage(medicine, slotDate, toTimeString(slotDate)),
+      slotKey: takenSlot,
+      stockUsed: getTotalStock(medicine) !== undefined ? getDoseAmount(medicine, slotDate, toTimeString(slotDate)) : undefined,
+    }, 'taken', snoozeCount);
+
+    if (medicine.device && !isDeviceLow(medicine.device)) {
+      const remaining = Math.max(0, medicine.device.remaining - getDoseAmount(medicine, slotDate, toTimeString(slotDate)));
+      if (remaining <= medicine.device.lowAlert) {
+        notifyDeviceLow(medicine, medicine.device, remaining).catch(error => console.log('Error posting device notification:', error));
+      }
+    }
+
+    setMedicines(prev => prev.map(med => {
+      if (med.id === id) {
+        const amount = getDoseAmount(med, slotDate, toTimeString(slotDate));
+        const newStock = med.stock !== undefined ? Math.max(0, med.stock - amount) : undefined;
+        return { 
+          ...med, 
+          lastTaken: new Date().toISOString(),
+          slotStatuses: withSlotStatus(med.slotStatuses, takenSlot, 'taken'),
+          course: med.course ? { ...med.course, dosesTaken: med.course.dosesTaken + 1 } : undefined,
+          stock: newStock,
+          batches: med.batches && takeFirstExpiring(med.batches, amount, new Date()),
+          device: med.device && { ...med.device, remaining: Math.max(0, med.device.remaining - amount) },
+        };
+      }
+      return med;
+    }));
+    if (!silent) {
+      Alert.alert('تم ✅', 'تم تسجيل تناول الدواء بنجاح', [
+        { text: 'حسناً', style: 'default' }
+      ]);
+    }
+  }, [medicines, recordIntakeEvent]);
+
+  // Record a skipped or missed dose slot
+  const setSlotStatus = useCallback((id: string, slotKey: string, status: DoseSlotStatus) => {
+    cancelEscalationNotifications(id, slotKey)
+      .catch(error => console.log('Error cancelling escalation notifications:', error));
+    setMedicines(prev => prev.map(med =>
+      med.id === id ? { ...med, slotStatuses: withSlotStatus(med.slotStatuses, slotKey, status) } : med
+    ));
+  }, []);
+
+  // Silence the alarm (sound and vibration) while keeping the session open
+  const silenceAlarm = useCallback(async () => {
+    await stopAlarmSound();
+    
+    if (vibrationRef.current) {
+      clearInterval(vibrationRef.current);
+      vibrationRef.current = null;
+    }
+    Vibration.cancel();
+  }, [stopAlarmSound]);
+
+  // Stop alarm and close the session
+  const stopAlarm = useCallback(async () => {
+    await silenceAlarm();
+
+    activeAlarmRef.current = null;
+    silentSessionRef.current = false;
+    setActiveAlarm(null);
+    setShowAlarmModal(false);
+    setEscalationStep(0);
+    Notifications.dismissNotificationAsync(ESCALATION_NOTIFICATION_ID)
+      .catch(error => console.log('Error dismissing escalation notification:', error));
+  }, [silenceAlarm]);
+
+  // A session rings with the sound and vibration of its most important medicine
+  const getSessionLead = useCallback((doses: Pick<AlarmDose, 'medicineId'>[]) => {
+    const priorities = Object.keys(PRIORITY_CONFIG);
+    return doses
+      .map(dose => medicines.find(med => med.id === dose.medicineId))
+      .reduce<Medicine | undefined>((best, med) =>
+        med && (!best || priorities.indexOf(med.priority) > priorities.indexOf(best.priority)) ? med : best
+      , undefined);
+  }, [medicines]);
+
+  const getSessionAlarmSound = useCallback((doses: Pick<AlarmDose, 'medicineId'>[]) =>
+    getAlarmSound(getSessionLead(doses) || { category: 'other' }, settings.sounds)
+  , [getSessionLead, settings.sounds]);
+
+  // Vibrate a pattern repeatedly until the alarm is silenced
+  const startVibration = useCallback((pattern: number[]) => {
+    if (vibrationRef.current) {
+      clearInterval(vibrationRef.current);
+    }
+    Vibration.vibrate(toVibrationPattern(pattern), true);
+    const duration = pattern.reduce((total, length) => total + length, 0);
+    vibrationRef.current = setInterval(() => {
+      Vibration.vibrate(toVibrationPattern(pattern));
+    }, Math.max(duration, MIN_VIBRATION_REPEAT_MS)) as unknown as NodeJS.Timeout;
+  }, []);
+
+  // Trigger alarm function with sound and vibration. Doses due while a session is open join it
+  const triggerAlarm = useCallback(async (alarmData: ActiveAlarm) => {
+    // The session alerts as loudly as its most important dose allows
+    const now = new Date();
+    const alertMode = alarmData.doses
+      .map(dose => medicines.find(med => med.id === dose.medicineId)?.priority || 'medium')
+      .map(priority => getAlertMode(priority, now, settings.quietHours))
+      .reduce((loudest, mode) =>
+        ALERT_MODE_STRENGTH.indexOf(mode) > ALERT_MODE_STRENGTH.indexOf(loudest) ? mode : loudest
+      , 'silent' as AlertMode);
+
+    // Quiet-hours doses only get a notification; tapping it opens the session
+    const postSilentNotification = (doses: AlarmDose[]) =>
+      Notifications.scheduleNotificationAsync({
+        content: {
+          title: '💊 حان وقت الدواء',
+          body: doses.map(dose => `${dose.medicineName} - ${dose.dosage}`).join('\n'),
+          sound: false,
+          data: { type: 'silent-dose' },
+        },
+        trigger: { channelId: ALERT_MODE_CHANNELS.silent },
+      }).catch(error => console.log('Error posting silent notification:', error));
+
+    let session = alarmData;
+    if (activeAlarmRef.current) {
+      const merged = {
+        ...activeAlarmRef.current,
+        doses: mergeAlarmDoses(activeAlarmRef.current.doses, alarmData.doses)
+      };
+      activeAlarmRef.current = merged;
+      setActiveAlarm(merged);
+      if (!silentSessionRef.current) return;
+      if (alertMode === 'silent') {
+        await postSilentNotification(alarmData.doses);
+        return;
+      }
+      // A louder dose joining a silent session makes it alert in full
+      session = merged;
+    } else {
+      activeAlarmRef.current = alarmData;
+      setActiveAlarm(alarmData);
+    }
+
+    silentSessionRef.current = alertMode === 'silent';
+    if (alertMode === 'silent') {
+      await postSilentNotification(alarmData.doses);
+      return;
+    }
+    // An alarm cuts off any sound preview
+    await stopPreviewSound();
+    setShowAlarmModal(true);
+
+    if (alertMode === 'ring') {
+      // Escalating sessions start quieter and grow louder with each re-ring
+      const escalates = session.doses.some(dose =>
+        ESCALATION_CONFIG[medicines.find(med => med.id === dose.medicineId)?.priority || 'medium']
+      );
+      await playAlarmSound(
+        getSessionAlarmSound(session.doses),
+        escalates ? getEscalationVolume(0, now, settings.quietHours) : 1.0,
+        settings.sounds.fadeInSeconds
+      );
+    }
+
+    startVibration(settings.vibration[getSessionLead(session.doses)?.priority || 'medium']);
+  }, [
+    playAlarmSound, stopPreviewSound, getSessionAlarmSound, getSessionLead, startVibration,
+    medicines, settings.quietHours, settings.sounds.fadeInSeconds, settings.vibration
+  ]);
+
+  // Re-ring a snoozed session and drop it from the persisted list
+  const fireSnooze = useCallback((snooze: SnoozedAlarm) => {
+    const timer = snoozeTimersRef.current.get(snooze.id);
+    if (timer) {
+      clearTimeout(timer);
+    }
+    snoozeTimersRef.current.delete(snooze.id);
+    setSnoozedAlarms(prev => prev.filter(item => item.id !== snooze.id));
+    Notifications.cancelScheduledNotificationAsync(`snooze-${snooze.id}`)
+      .catch(error => console.log('Error cancelling snooze notification:', error));
+    triggerAlarm(snooze.alarm);
+  }, [triggerAlarm]);
+
+  // Re-ring unanswered high and critical doses louder every few minutes, recording each step
+  useEffect(() => {
+    if (!activeAlarm) return;
+
+    const pendingDoses = activeAlarm.doses.filter(dose => !dose.status);
+    const priorities = pendingDoses.map(dose => medicines.find(med => med.id === dose.medicineId)?.priority);
+    const level = priorities.includes('critical') ? 'critical' : priorities.includes('high') ? 'high' : undefined;
+    const config = level && ESCALATION_CONFIG[level];
+    if (!level || !config || escalationStep >= config.maxSteps) return;
+
+    const escalatingDoses = pendingDoses.filter(dose =>
+      ESCALATION_CONFIG[medicines.find(med => med.id === dose.medicineId)?.priority || 'medium']
+    );
+
+    const timer = setTimeout(async () => {
+      const step = escalationStep + 1;
+      escalatingDoses.forEach(dose => recordIntakeEvent(dose, 'escalated', activeAlarm.snoozeCount, step));
+      setEscalationStep(step);
+
+      // A session kept to a silent notification stays that way
+      const now = new Date();
+      const alertMode = silentSessionRef.current ? 'silent' : getAlertMode(level, now, settings.quietHours);
+      if (alertMode !== 'silent') {
+        setShowAlarmModal(true);
+      }
+      // Stays in the notification shade until the session is closed
+      await Notifications.scheduleNotificationAsync({
+        identifier: ESCALATION_NOTIFICATION_ID,
+        content: {
+          title: '🚨 جرعة مهمة لم تُسجَّل بعد',
+          body: escalatingDoses.map(dose => `${dose.medicineName} - ${dose.dosage}`).join('\n'),
+          sound: alertMode === 'ring',
+          sticky: true,
+          autoDismiss: false,
+          priority: Notifications.AndroidNotificationPriority.MAX,
+          data: { type: 'escalation' },
+        },
+        trigger: { channelId: ALERT_MODE_CHANNELS[alertMode] },
+      }).catch(error => console.log('Error posting escalation notification:', error));
+
+      if (alertMode === 'silent') return;
+
+      await stopAlarmSound();
+      if (alertMode === 'ring') {
+        await playAlarmSound(getSessionAlarmSound(escalatingDoses), getEscalationVolume(step, now, settings.quietHours));
+      }
+
+      startVibration(intensifyVibration(settings.vibration[level], step));
+    }, config.intervalMinutes * 60 * 1000);
+
+    return () => clearTimeout(timer);
+  }, [
+    activeAlarm, medicines, escalationStep, settings.quietHours, settings.vibration,
+    recordIntakeEvent, playAlarmSound, stopAlarmSound, getSessionAlarmSound, startVibration
+  ]);
+
+  // Open the alarm modal when a dose notification is tapped
+  useEffect(() => {
+    if (!lastNotificationResponse || lastNotificationResponse.actionIdentifier !== Notifications.DEFAULT_ACTION_IDENTIFIER) {
+      return;
+    }
+
+    const { notification } = lastNotificationResponse;
+    // Repeating triggers reuse the same identifier, so the delivery date tells taps apart
+    const responseKey = `${notification.request.identifier}-${notification.date}`;
+    if (handledResponseRef.current === responseKey) return;
+    handledResponseRef.current = responseKey;
+
+    const data = notification.request.content.data as Partial<Record<'type' | 'medicineId' | 'medicineName' | 'dosage' | 'time', string>>;
+    if (data?.type === 'missed-doses') {
+      checkMissedDoses();
+      return;
+    }
+    // Pre-reminders and stock reminders only bring the app forward
+    if (data?.type === 'pre-reminder' || data?.type === 'refill' || data?.type === 'expiry' || data?.type === 'device') return;
+    if (data?.type === 'escalation' || data?.type === 'silent-dose') {
+      if (activeAlarmRef.current) {
+        setShowAlarmModal(true);
+        return;
+      }
+      // A scheduled re-ring tapped with no session open rings its dose like the original notification
+      if (data.type === 'silent-dose') return;
+    }
+    if (data?.type === 'snooze') {
+      // Snoozes that are not loaded yet are re-armed on launch and fire right away
+      const snooze = snoozedAlarms.find(item => item.id === (data as { snoozeId?: string }).snoozeId);
+      if (snooze) {
+        fireSnooze(snooze);
+      }
+      return;
+    }
+    if (!data?.medicineId || !data.time) return;
+
+    // Other medicines sharing this slot join the same session
+    const slotDay = new Date(notification.date);
+    const slotKey = getSlotKey(slotDay, data.time);
+    const sharedDoses: AlarmDose[] = medicines
+      .filter(med => med.isActive && med.id !== data.medicineId)
+      .filter(med => getDaySlots(med, slotDay).some(slot => slot.slotKey === slotKey && !slot.status))
+      .map(med => ({
+        medicineId: med.id,
+        medicineName: med.name,
+        dosage: getCurrentDosage(med, slotDay, data.time),
+        time: data.time as string,
+        slotKey,
+      }));
+
+    triggerAlarm({
+      doses: [{
+        medicineId: data.medicineId,
+        medicineName: data.medicineName || '',
+        dosage: data.dosage || '',
+        time: data.time,
+        slotKey,
+      }, ...sharedDoses],
+      snoozeCount: 0
+    });
+  }, [lastNotificationResponse, medicines, snoozedAlarms, triggerAlarm, fireSnooze, checkMissedDoses]);
+
+  // Resolve one missed dose from the sheet
+  const resolveMissedDose = useCallback(async (dose: MissedDose, action: MissedDoseAction) => {
+    if (action === 'taken') {
+      markAsTaken(dose.medicineId, { slotKey: dose.slotKey });
+    } else {
+      const status = action === 'skipped' ? 'skipped' : 'missed';
+      setSlotStatus(dose.medicineId, dose.slotKey, status);
+      recordIntakeEvent(dose, status);
+    }
+
+    const remaining = missedDoses.filter(item => item.id !== dose.id);
+    setMissedDoses(remaining);
+    if (remaining.length === 0) {
+      setShowMissedSheet(false);
+    }
+
+    try {
+      await AsyncStorage.setItem(STORAGE_KEYS.missedDoses, JSON.stringify(remaining));
+    } catch (error) {
+      console.error('Save error:', error);
+    }
+  }, [missedDoses, markAsTaken, setSlotStatus, recordIntakeEvent]);
+
+  // Snooze the unresolved doses of the session. Doses past their priority's snooze limit become missed
+  const snoozeAlarm = useCallback(async (minutes: number = settings.snoozeMinutes) => {
+    if (activeAlarm) {
+      const snoozeCount = activeAlarm.snoozeCount + 1;
+      const pendingDoses = activeAlarm.doses.filter(dose => !dose.status);
+      const canSnooze = (dose: AlarmDose) => {
+        const priority = medicines.find(med => med.id === dose.medicineId)?.priority || 'medium';
+        return snoozeCount <= settings.maxSnoozes[priority];
+      };
+      const snoozedDoses = pendingDoses.filter(canSnooze);
+      const expiredDoses = pendingDoses.filter(dose => !canSnooze(dose));
+
+      expiredDoses.forEach(dose => {
+        setSlotStatus(dose.medicineId, dose.slotKey, 'missed');
+        recordIntakeEvent(dose, 'missed', activeAlarm.snoozeCount);
+      });
+      snoozedDoses.forEach(dose => recordIntakeEvent(dose, 'snoozed', snoozeCount));
+      await stopAlarm();
+
+      if (snoozedDoses.length > 0) {
+        const snooze: SnoozedAlarm = {
+          id: Date.now().toString(),
+          fireAt: new Date(Date.now() + minutes * 60 * 1000).toISOString(),
+          alarm: { doses: snoozedDoses, snoozeCount },
+        };
+        setSnoozedAlarms(prev => [...prev, snooze]);
+        scheduleSnoozeNotification(snooze)
+          .catch(error => console.log('Error scheduling snooze notification:', error));
+      }
+
+      if (expiredDoses.length > 0) {
+        Alert.alert(
+          '❌ تم الوصول للحد الأقصى للتأجيل',
+          `تم تسجيل ${expiredDoses.map(dose => dose.medicineName).join('، ')} كجرعة فائتة`
+        );
+      } else {
+        Alert.alert('تأجيل ⏰', `تم تأجيل المنبه لمدة ${minutes} دقائق`);
+      }
+    }
+  }, [activeAlarm, medicines, settings, stopAlarm, setSlotStatus, recordIntakeEvent]);
+
+  // Arm a timer for every persisted snooze, including ones restored on launch
+  useEffect(() => {
+    if (isLoading) return;
+
+    snoozedAlarms.forEach(snooze => {
+      if (snoozeTimersRef.current.has(snooze.id)) return;
+      const delay = Math.max(0, new Date(snooze.fireAt).getTime() - Date.now());
+      const timer = setTimeout(() => fireSnooze(snooze), delay) as unknown as NodeJS.Timeout;
+      snoozeTimersRef.current.set(snooze.id, timer);
+    });
+  }, [isLoading, snoozedAlarms, fireSnooze]);
+
+  // Update a setting and keep the rest as is
+  const updateSettings = (changes: Partial<AppSettings>) => {
+    setSettings(prev => ({ ...prev, ...changes }));
+  };
+
+  // Move a routine event; the anchored-times effect carries every dependent dose time along
+  const updateRoutine = (anchor: RoutineAnchor, time: string) => {
+    updateSettings({ routine: { ...settings.routine, [anchor]: time } });
+  };
+
+  const updateQuietHours = (changes: Partial<QuietHoursSettings>) => {
+    updateSettings({ quietHours: { ...settings.quietHours, ...changes } });
+  };
+
+  const updateSounds = (changes: Partial<AlarmSoundSettings>) => {
+    updateSettings({ sounds: { ...settings.sounds, ...changes } });
+  };
+
+  // Set or clear (back to the default tone) the sound of a category
+  const setCategorySound = (category: MedicineCategory, sound: AlarmSound | null) => {
+    const categories = { ...settings.sounds.categories };
+    if (sound) {
+      categories[category] = sound;
+    } else {
+      delete categories[category];
+    }
+    updateSounds({ categories });
+  };
+
+  // Pick a local audio file and hand it to onPicked
+  const chooseSoundFile = async (onPicked: (sound: AlarmSound) => void) => {
+    try {
+      const sound = await pickAlarmSoundFile();
+      if (sound) {
+        onPicked(sound);
+      }
+    } catch (error) {
+      console.log('Error picking sound file:', error);
+      Alert.alert('خطأ ❌', 'تعذر استيراد الملف الصوتي');
+    }
+  };
+
+  // Play the first few seconds of a sound; skipped while an alarm is ringing
+  const previewAlarmSound = async (alarmSound: AlarmSound) => {
+    if (activeAlarmRef.current) return;
+    await stopPreviewSound();
+    const sound = await createAlarmSound(alarmSound);
+    if (!sound) return;
+
+    previewSoundRef.current = sound;
+    try {
+      await sound.playAsync();
+    } catch (error) {
+      console.log('Error playing preview:', error);
+      stopPreviewSound();
+      return;
+    }
+    setTimeout(() => {
+      if (previewSoundRef.current === sound) {
+        stopPreviewSound();
+      }
+    }, SOUND_PREVIEW_SECONDS * 1000);
+  };
+
+  const updateVibration = (priority: MedicinePriority, pattern: number[]) => {
+    updateSettings({ vibration: { ...settings.vibration, [priority]: pattern } });
+  };
+
+  const addVibrationPulse = (priority: MedicinePriority, pulse: keyof typeof VIBRATION_PULSES) => {
+    const pattern = settings.vibration[priority];
+    if (pattern.length / 2 >= MAX_VIBRATION_PULSES) return;
+    updateVibration(priority, [...pattern, VIBRATION_PULSES[pulse], VIBRATION_PULSE_GAP]);
+  };
+
+  const removeVibrationPulse = (priority: MedicinePriority) => {
+    const pattern = settings.vibration[priority];
+    if (pattern.length > 2) {
+      updateVibration(priority, pattern.slice(0, -2));
+    }
+  };
+
+  // Feel a pattern once; skipped while an alarm is vibrating
+  const testVibration = (pattern: number[]) => {
+    if (activeAlarmRef.current) return;
+    Vibration.cancel();
+    Vibration.vibrate(toVibrationPattern(pattern));
+  };
+
+  const updatePrayer = (changes: Partial<PrayerSettings>) => {
+    updateSettings({ prayer: { ...settings.prayer, ...changes } });
+  };
+
+  // Save a location typed in by hand
+  const saveCustomLocation = () => {
+    const latitude = Number(customLocation.latitude);
+    const longitude = Number(customLocation.longitude);
+    if (customLocation.latitude === '' || isNaN(latitude) || Math.abs(latitude) > 66 ||
+        customLocation.longitude === '' || isNaN(longitude) || Math.abs(longitude) > 180) {
+      Alert.alert('خطأ ❌', 'يرجى إدخال خط عرض بين -66 و 66 وخط طول بين -180 و 180');
+      return;
+    }
+    updatePrayer({ locationName: 'موقع مخصص', latitude, longitude });
+    setCustomLocation({ latitude: '', longitude: '' });
+  };
+
+  const updateFasting = (changes: Partial<FastingSettings>) => {
+    updateSettings({ fasting: { ...settings.fasting, ...changes } });
+  };
+
+  // Use fasting times for one medicine when automatic remapping is off
+  const applyFastingTimes = (id: string) => {
+    setMedicines(prev => prev.map(med => med.id === id ? withFastingTimes(med, settings.fasting) : med));
+  };
+
+  // Change the snooze limit of one priority
+  const changeMaxSnoozes = (priority: MedicinePriority, delta: number) => {
+    updateSettings({
+      maxSnoozes: {
+        ...settings.maxSnoozes,
+        [priority]: Math.max(0, settings.maxSnoozes[priority] + delta),
+      },
+    });
+  };
+
+  // Take or skip doses of the session, closing it once every dose is resolved
+  const resolveAlarmDoses = useCallback(async (doses: AlarmDose[], status: 'taken' | 'skipped') => {
+    if (!activeAlarm) return;
+
+    doses.forEach(dose => {
+      if (status === 'taken') {
+        markAsTaken(dose.medicineId, {
+          slotKey: dose.slotKey,
+          snoozeCount: activeAlarm.snoozeCount,
+          silent: true
+        });
+      } else {
+        setSlotStatus(dose.medicineId, dose.slotKey, 'skipped');
+        recordIntakeEvent(dose, 'skipped', activeAlarm.snoozeCount);
+      }
+    });
+
+    const updatedDoses = activeAlarm.doses.map(dose =>
+      doses.includes(dose) ? { ...dose, status } : dose
+    );
+
+    if (updatedDoses.every(dose => dose.status)) {
+      await stopAlarm();
+    } else {
+      const updatedAlarm = { ...activeAlarm, doses: updatedDoses };
+      activeAlarmRef.current = updatedAlarm;
+      setActiveAlarm(updatedAlarm);
+    }
+  }, [activeAlarm, stopAlarm, markAsTaken, setSlotStatus, recordIntakeEvent]);
+
+  // Mark every unresolved dose of the session as taken
+  const takeAllFromAlarm = useCallback(async () => {
+    if (activeAlarm) {
+      await resolveAlarmDoses(activeAlarm.doses.filter(dose => !dose.status), 'taken');
+    }
+  }, [activeAlarm, resolveAlarmDoses]);
+
+  // Cleanup function for timers and sound
+  useEffect(() => {
+    const snoozeTimers = snoozeTimersRef.current;
+    return () => {
+      const cleanup = async () => {
+        if (vibrationRef.current) {
+          clearInterval(vibrationRef.current);
+        }
+        if (alarmCheckRef.current) {
+          clearInterval(alarmCheckRef.current);
+        }
+        snoozeTimers.forEach(timer => clearTimeout(timer));
+        await stopAlarmSound();
+      };
+      cleanup();
+    };
+  }, [stopAlarmSound]);
+
+  // Check if today is a selected weekly day
+  const isWeeklyDayActive = useCallback((medicine: Medicine): boolean => {
+    return isScheduledOnDay(medicine, new Date());
+  }, []);
+
+  // Keep routine- and prayer-relative times resolved; prayer times shift a little every day
+  useEffect(() => {
+    if (isLoading) return;
+
+    const anchorSettings = { routine: settings.routine, prayer: settings.prayer };
+    const syncAnchoredTimes = () => {
+      setMedicines(prev => {
+        let changed = false;
+        const next = prev.map(med => {
+          const resolved = withResolvedTimes(med, anchorSettings);
+          if (resolved.times.join() === med.times.join() &&
+              (resolved.regularTimes || []).join() === (med.regularTimes || []).join()) {
+            return med;
+          }
+          changed = true;
+          return resolved;
+        });
+        return changed ? next : prev;
+      });
+    };
+
+    syncAnchoredTimes();
+    const timer = setInterval(syncAnchoredTimes, 60000);
+    return () => clearInterval(timer);
+  }, [settings.routine, settings.prayer, isLoading]);
+
+  // Move doses into the eating window while fasting and back to their usual times afterwards
+  useEffect(() => {
+    if (isLoading) return;
+
+    const syncFastingTimes = () => {
+      const fastingToday = isFastingDay(settings.fasting, new Date());
+      setMedicines(prev => {
+        let changed = false;
+        const next = prev.map(med => {
+          if (med.regularTimes && (!fastingToday || !canRemapForFasting(med, settings.fasting))) {
+            changed = true;
+            return { ...med, times: med.regularTimes, regularTimes: undefined };
+          }
+          // Remapped medicines follow suhoor and iftar changes; others wait for auto remap or the card button
+          if (fastingToday && (med.regularTimes || settings.fasting.autoRemap) && canRemapForFasting(med, settings.fasting)) {
+            const remapped = withFastingTimes(med, settings.fasting);
+            if (!med.regularTimes || remapped.times.join() !== med.times.join()) {
+              changed = true;
+              return remapped;
+            }
+          }
+          return med;
+        });
+        return changed ? next : prev;
+      });
+    };
+
+    syncFastingTimes();
+    const timer = setInterval(syncFastingTimes, 60000);
+    return () => clearInterval(timer);
+  }, [settings.fasting, isLoading]);
+
+  // Deactivate medicines whose course has finished
+  useEffect(() => {
+    if (isLoading) return;
+
+    const completeFinishedCourses = () => {
+      const now = new Date();
+      const finished = medicines.filter(med => med.isActive && isCourseComplete(med, now));
+      if (finished.length === 0) return;
+
+      const finishedIds = new Set(finished.map(med => med.id));
+      setMedicines(prev => prev.map(med =>
+        finishedIds.has(med.id) && med.course
+          ? { ...med, isActive: false, course: { ...med.course, completedAt: now.toISOString() } }
+          : med
+      ));
+      Alert.alert(
+        'اكتمل العلاج 🎉',
+        `انتهت مدة العلاج: ${finished.map(med => med.name).join('، ')}`
+      );
+    };
+
+    completeFinishedCourses();
+    const timer = setInterval(completeFinishedCourses, 60000);
+    return () => clearInterval(timer);
+  }, [medicines, isLoading]);
+
+  // Check for medicine times every minute
+  useEffect(() => {
+    const checkMedicineTimes = () => {
+      const now = new Date();
+      const currentTime = `${now.getHours().toString().padStart(2, '0')}:${now.getMinutes().toString().padStart(2, '0')}`;
+      const dueDoses: AlarmDose[] = [];
+      
+      medicines.forEach(medicine => {
+        const dueSlot = medicine.isActive
+          ? getDaySlots(medicine, now).find(slot => slot.time === currentTime)
+          : undefined;
+
+        if (dueSlot) {
+          const slotKey = dueSlot.slotKey;
+          const alarmKey = `${medicine.id}-${slotKey}`;
+          
+          if (!dueSlot.status && !alarmedSlotsRef.current.has(alarmKey)) {
+            alarmedSlotsRef.current.add(alarmKey);
+
+            if (isLowStock(medicine, now)) {
+              const forecast = getStockForecast(medicine, now);
+              Alert.alert(
+                '⚠️ تنبيه المخزون',
+                `مخزون دواء ${medicine.name} منخفض (${formatStock(medicine, getUsableStock(medicine, now) ?? 0)} متبقي${forecast ? ` · ${getRunOutLabel(forecast.daysLeft)}` : ''})`
+              );
+            }
+
+            dueDoses.push({
+              medicineId: medicine.id,
+              medicineName: medicine.name,
+              dosage: getCurrentDosage(medicine, now, currentTime),
+              time: currentTime,
+              slotKey,
+            });
+          }
+        }
+      });
+
+      if (dueDoses.length > 0) {
+        triggerAlarm({ doses: dueDoses, snoozeCount: 0 });
+      }
+    };
+
+    checkMedicineTimes();
+    alarmCheckRef.current = setInterval(checkMedicineTimes, 60000) as unknown as NodeJS.Timeout;
+
+    return () => {
+      if (alarmCheckRef.current) {
+        clearInterval(alarmCheckRef.current);
+      }
+    };
+  }, [medicines, triggerAlarm]);
+
+  // Load medicines from storage
+  const loadMedicines = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const [[, stored], [, storedEvents], [, storedSnoozes], [, storedSettings], [, storedRestocks]] = await AsyncStorage.multiGet([
+        STORAGE_KEYS.medicines,
+        STORAGE_KEYS.intakeEvents,
+        STORAGE_KEYS.snoozedAlarms,
+        STORAGE_KEYS.settings,
+        STORAGE_KEYS.restocks,
+      ]);
+      if (stored) {
+        setMedicines(JSON.parse(stored));
+      }
+      if (storedEvents) {
+        setIntakeEvents(JSON.parse(storedEvents));
+      }
+      if (storedSnoozes) {
+        setSnoozedAlarms(JSON.parse(storedSnoozes));
+      }
+      if (storedRestocks) {
+        setRestocks(JSON.parse(storedRestocks));
+      }
+      if (storedSettings) {
+        setSettings(parseSettings(storedSettings));
+      }
+    } catch (error) {
+      console.error('Load error:', error);
+      Alert.alert('خطأ', 'فشل في تحميل البيانات');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Save medicines to storage
+  const saveMedicines = useCallback(async (medicineList: Medicine[]) => {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEYS.medicines, JSON.stringify(medicineList));
+    } catch (error) {
+      console.error('Save error:', error);
+      Alert.alert('خطأ', 'فشل في حفظ البيانات');
+    }
+  }, []);
+
+  // Save intake history to storage
+  const saveIntakeEvents = useCallback(async (eventList: IntakeEvent[]) => {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEYS.intakeEvents, JSON.stringify(eventList));
+    } catch (error) {
+      console.error('Save error:', error);
+    }
+  }, []);
+
+  // Refresh control
+  const onRefresh = useCallback(async () => {
+    setRefreshing(true);
+    await loadMedicines();
+    setRefreshing(false);
+  }, [loadMedicines]);
+
+  useEffect(() => {
+    loadMedicines();
+  }, [loadMedicines]);
+
+  useEffect(() => {
+    if (medicines.length >= 0) {
+      saveMedicines(medicines);
+    }
+  }, [medicines, saveMedicines]);
+
+  useEffect(() => {
+    if (!isLoading) {
+      saveIntakeEvents(intakeEvents);
+    }
+  }, [intakeEvents, isLoading, saveIntakeEvents]);
+
+  // Persist snoozes and settings so they survive a restart
+  useEffect(() => {
+    if (!isLoading) {
+      AsyncStorage.setItem(STORAGE_KEYS.snoozedAlarms, JSON.stringify(snoozedAlarms))
+        .catch(error => console.error('Save error:', error));
+    }
+  }, [snoozedAlarms, isLoading]);
+
+  useEffect(() => {
+    if (!isLoading) {
+      AsyncStorage.setItem(STORAGE_KEYS.settings, JSON.stringify(settings))
+        .catch(error => console.error('Save error:', error));
+    }
+  }, [settings, isLoading]);
+
+  useEffect(() => {
+    if (!isLoading) {
+      AsyncStorage.setItem(STORAGE_KEYS.restocks, JSON.stringify(restocks))
+        .catch(error => console.error('Save error:', error));
+    }
+  }, [restocks, isLoading]);
+
+  // Look for doses missed while the app was closed once medicines are loaded
+  useEffect(() => {
+    if (!isLoading) {
+      checkMissedDoses();
+    }
+  }, [isLoading, checkMissedDoses]);
+
+  // Re-sync whenever medicines are added, toggled or removed
+  useEffect(() => {
+    if (!isLoading) {
+      syncNotifications();
+    }
+  }, [syncNotifications, isLoading]);
+
+  // Validation functions
+  const validateMedicineName = (name: string) => name.trim().length >= 2;
+  const validateDosage = (dosage: string) => dosage.trim().length >= 2;
+  const validateTime = (time: string) => /^([01]?[0-9]|2[0-3]):[0-5][0-9]$/.test(time);
+  const validateStock = (stock: string) => stock === '' || (!isNaN(Number(stock)) && Number(stock) >= 0);
+  const validateRefillDays = (days: string) => Number.isInteger(Number(days)) && Number(days) >= 0 && Number(days) <= 60;
+  const validateIntervalHours = (hours: string) => Number.isInteger(Number(hours)) && Number(hours) >= 1 && Number(hours) <= 72;
+
+  const validateTaperDays = (days: string) => Number.isInteger(Number(days)) && Number(days) >= 1 && Number(days) <= 90;
+  const validateCourseDoses = (doses: string) => Number.isInteger(Number(doses)) && Number(doses) >= 1 && Number(doses) <= 1000;
+  const validateDeviceCapacity = (capacity: string) => Number.isInteger(Number(capacity)) && Number(capacity) >= 1 && Number(capacity) <= 10000;
+  const validateDiscardDays = (days: string) => Number.isInteger(Number(days)) && Number(days) >= 1 && Number(days) <= 365;
+  const validateCycleDays = (days: string, max: number) => Number.isInteger(Number(days)) && Number(days) >= 1 && Number(days) <= max;
+  const validateCycle = () => {
+    switch (newMedicine.cycleType) {
+      case 'everyNDays':
+        return validateCycleDays(newMedicine.cycleInterval, 60) && Number(newMedicine.cycleInterval) >= 2;
+      case 'onOff':
+        return validateCycleDays(newMedicine.cycleOnDays, 90) && validateCycleDays(newMedicine.cycleOffDays, 90);
+      case 'monthly':
+        return validateCycleDays(newMedicine.cycleMonthDays, 27);
+    }
+  };
+
+  // Build the cycle definition from the form fields
+  const buildCycle = (): MedicineCycle => {
+    switch (newMedicine.cycleType) {
+      case 'everyNDays':
+        return { type: 'everyNDays', interval: Number(newMedicine.cycleInterval) };
+      case 'onOff':
+        return { type: 'onOff', onDays: Number(newMedicine.cycleOnDays), offDays: Number(newMedicine.cycleOffDays) };
+      case 'monthly':
+        return { type: 'monthly', days: Number(newMedicine.cycleMonthDays) };
+    }
+  };
+
+  const validateForm = () => {
+    const errors: ValidationErrors = {};
+    if (!validateMedicineName(newMedicine.name)) {
+      errors.name = 'اسم الدواء يجب أن يكون على الأقل حرفين';
+    }
+    if (!newMedicine.taperEnabled && !(newMedicine.doseAmount > 0)) {
+      errors.dosage = 'يرجى تحديد مقدار الجرعة';
+    }
+    if (newMedicine.frequency !== 'asNeeded' && newMedicine.times.some(time => !validateTime(time))) {
+      errors.time = 'يرجى إدخال أوقات صحيحة';
+    }
+    if (newMedicine.frequency === 'interval' && !validateIntervalHours(newMedicine.intervalHours)) {
+      errors.interval = 'يرجى إدخال عدد ساعات بين 1 و 72';
+    }
+    if (newMedicine.frequency === 'asNeeded' && (
+      !validateCycleDays(newMedicine.asNeededMinInterval, 48) || !validateCycleDays(newMedicine.asNeededMaxDaily, 24)
+    )) {
+      errors.asNeeded = 'يرجى إدخال فاصل بين 1 و 48 ساعة وحد أقصى بين 1 و 24 جرعة';
+    }
+    if (newMedicine.frequency === 'cyclic' && !validateCycle()) {
+      errors.cycle = 'يرجى إدخال أعداد أيام صحيحة للدورة';
+    }
+    // Each step's stock use is read from the number its dose starts with
+    if (newMedicine.taperEnabled && newMedicine.taperSteps.some(step =>
+      !validateDosage(step.dosage) || parseDoseAmount(step.dosage) === undefined || !validateTaperDays(step.days)
+    )) {
+      errors.taper = 'يرجى إدخال جرعة تبدأ برقم (مثال: 2 قرص) وعدد أيام (1 - 90) لكل مرحلة';
+    }
+    if (!newMedicine.taperEnabled && newMedicine.courseType === 'endDate' && daysBetween(new Date(), newMedicine.courseEndDate) < 0) {
+      errors.course = 'تاريخ انتهاء العلاج يجب ألا يكون في الماضي';
+    }
+    if (!newMedicine.taperEnabled && newMedicine.courseType === 'doseCount' && !validateCourseDoses(newMedicine.courseTotalDoses)) {
+      errors.course = 'يرجى إدخال عدد جرعات بين 1 و 1000';
+    }
+    const hasStock = newMedicine.batches.some(batch => batch.quantity.trim() !== '');
+    if (newMedicine.batches.some(batch => !validateStock(batch.quantity)) || !validateStock(newMedicine.packSize)) {
+      errors.stock = 'يرجى إدخال رقم صحيح للمخزون';
+    } else if (newMedicine.batches.some(batch => batch.quantity.trim() !== '' && !batch.expiryDate)) {
+      errors.stock = 'يرجى تحديد تاريخ انتهاء كل عبوة';
+    } else if (newMedicine.frequency !== 'asNeeded' && hasStock && !validateRefillDays(newMedicine.refillReminderDays)) {
+      errors.stock = 'يرجى إدخال عدد أيام التذكير بين 0 و 60';
+    }
+    if (newMedicine.deviceKind && (
+      !validateDeviceCapacity(newMedicine.deviceCapacity) ||
+      (newMedicine.deviceDiscardDays !== '' && !validateDiscardDays(newMedicine.deviceDiscardDays)) ||
+      !validateStock(newMedicine.deviceLowAlert) ||
+      Number(newMedicine.deviceLowAlert) >= Number(newMedicine.deviceCapacity)
+    )) {
+      errors.device = 'يرجى إدخال سعة بين 1 و 10000، ومدة استخدام بين 1 و 365 يوماً، وحد تنبيه أقل من السعة';
+    }
+    setValidationErrors(errors);
+    return Object.keys(errors).length === 0;
+  };
+
+  // Get gradient colors for medicine
+  const getMedicineColors = (category: MedicineCategory) => {
+    return MEDICINE_CATEGORIES[category].color as [string, string];
+  };
+
+  // Add new medicine with animation
+  const addMedicine = () => {
+    if (!validateForm()) {
+      Alert.alert('خطأ ❌', 'يرجى تصحيح الأخطاء المحددة');
+      return;
+    }
+
+    if (medicines.some(med => med.name.toLowerCase() === newMedicine.name.toLowerCase())) {
+      Alert.alert('خطأ ❌', 'يوجد دواء بهذا الاسم مسبقاً');
+      return;
+    }
+
+    const taper = newMedicine.taperEnabled
+      ? newMedicine.taperSteps.map(step => ({
+        dosage: step.dosage.trim(),
+        amount: parseDoseAmount(step.dosage),
+        days: Number(step.days),
+      }))
+      : undefined;
+    const startDate = newMedicine.frequency === 'cyclic' && daysBetween(newMedicine.cycleStartDate, new Date()) !== 0
+      ? getSlotDate(newMedicine.cycleStartDate, '00:00')
+      : new Date();
+    const batches: StockBatch[] = newMedicine.batches
+      .flatMap((batch, i) => batch.quantity.trim() !== '' && batch.expiryDate ? [{
+        id: `${Date.now()}-${i}`,
+        quantity: Number(batch.quantity),
+        expiryDate: getSlotDate(batch.expiryDate, '00:00').toISOString(),
+        lotNumber: batch.lotNumber.trim() || undefined,
+      }] : []);
+    // Per-slot amounts are only kept when the slots actually differ
+    const slotAmounts = taper || newMedicine.frequency === 'interval' || newMedicine.frequency === 'asNeeded'
+      ? undefined
+      : newMedicine.times
+        .map((time, i) => ({ time, amount: newMedicine.timeAmounts[i] ?? newMedicine.doseAmount }))
+        .filter(slot => slot.time.trim() !== '')
+        .map(slot => slot.amount);
+    // A taper plan ends itself on the last day of its final step
+    const taperEndDate = taper && getSlotDate(startDate, '00:00');
+    if (taper && taperEndDate) {
+      taperEndDate.setDate(taperEndDate.getDate() + taper.reduce((total, step) => total + step.days, 0) - 1);
+    }
+
+    const medicine: Medicine = {
+      id: Date.now().toString(),
+      name: newMedicine.name.trim(),
+      dosage: taper ? taper[0].dosage : newMedicine.dosage.trim(),
+      dose: { amount: taper?.[0].amount ?? slotAmounts?.[0] ?? newMedicine.doseAmount, form: newMedicine.doseForm },
+      timeAmounts: slotAmounts?.some(amount => amount !== slotAmounts[0]) ? slotAmounts : undefined,
+      times: newMedicine.frequency === 'asNeeded'
+        ? []
+        : newMedicine.times.filter(time => time.trim() !== '').slice(0, newMedicine.frequency === 'interval' ? 1 : undefined),
+      timeAnchors: newMedicine.frequency !== 'asNeeded' && newMedicine.timeAnchors.some(Boolean)
+        ? newMedicine.timeAnchors.filter((_, i) => newMedicine.times[i].trim() !== '').slice(0, newMedicine.frequency === 'interval' ? 1 : undefined)
+        : undefined,
+      frequency: newMedicine.frequency,
+      weeklyDays: newMedicine.frequency === 'weekly' ? newMedicine.weeklyDays : undefined,
+      intervalHours: newMedicine.frequency === 'interval' ? Number(newMedicine.intervalHours) : undefined,
+      asNeeded: newMedicine.frequency === 'asNeeded' ? {
+        minIntervalHours: Number(newMedicine.asNeededMinInterval),
+        maxDailyDoses: Number(newMedicine.asNeededMaxDaily),
+      } : undefined,
+      cycle: newMedicine.frequency === 'cyclic' ? buildCycle() : undefined,
+      course: taperEndDate
+        ? { endDate: taperEndDate.toISOString(), dosesTaken: 0 }
+        : newMedicine.courseType === 'none' ? undefined : {
+          endDate: newMedicine.courseType === 'endDate' ? getSlotDate(newMedicine.courseEndDate, '00:00').toISOString() : undefined,
+          totalDoses: newMedicine.courseType === 'doseCount' ? Number(newMedicine.courseTotalDoses) : undefined,
+          dosesTaken: 0,
+        },
+      taper,
+      startDate: startDate.toISOString(),
+      isActive: true,
+      color: getMedicineColors(newMedicine.category)[0],
+      batches: batches.length > 0 ? batches : undefined,
+      packSize: newMedicine.packSize ? Number(newMedicine.packSize) : undefined,
+      stockAlert: newMedicine.frequency === 'asNeeded' && newMedicine.stockAlert ? Number(newMedicine.stockAlert) : undefined,
+      refillReminderDays: newMedicine.frequency !== 'asNeeded' && batches.length > 0
+        ? Number(newMedicine.refillReminderDays)
+        : undefined,
+      category: newMedicine.category,
+      icon: MEDICINE_CATEGORIES[newMedicine.category].icon,
+      priority: newMedicine.priority,
+      sound: newMedicine.sound || undefined,
+      preReminder: newMedicine.frequency !== 'asNeeded' && newMedicine.preReminderMinutes > 0 ? {
+        minutesBefore: newMedicine.preReminderMinutes,
+        note: newMedicine.preReminderNote.trim() || undefined,
+      } : undefined,
+      device: newMedicine.deviceKind ? {
+        kind: newMedicine.deviceKind,
+        capacity: Number(newMedicine.deviceCapacity),
+        remaining: Number(newMedicine.deviceCapacity),
+        openedAt: newMedicine.deviceOpenedAt.toISOString(),
+        discardAfterDays: newMedicine.deviceDiscardDays ? Number(newMedicine.deviceDiscardDays) : undefined,
+        lowAlert: newMedicine.deviceLowAlert !== ''
+          ? Number(newMedicine.deviceLowAlert)
+          : Math.round(Number(newMedicine.deviceCapacity) * DEVICE_LOW_FRACTION),
+      } : undefined,
+      notes: newMedicine.notes.trim(),
+    };
+
+    setMedicines([...medicines, medicine]);
+    
+    setNewMedicine({ 
+      name: '', 
+      dosage: '', 
+      doseAmount: 1,
+      doseForm: 'tablet',
+      times: [''], 
+      timeAnchors: [null],
+      timeAmounts: [null],
+      frequency: 'daily',
+      weeklyDays: [],
+      intervalHours: '',
+      asNeededMinInterval: '4',
+      asNeededMaxDaily: '4',
+      cycleType: 'everyNDays',
+      cycleInterval: '2',
+      cycleOnDays: '21',
+      cycleOffDays: '7',
+      cycleMonthDays: '5',
+      cycleStartDate: new Date(),
+      courseType: 'none',
+      courseEndDate: new Date(Date.now() + 6 * 24 * 60 * 60 * 1000),
+      courseTotalDoses: '',
+      taperEnabled: false,
+      taperSteps: [{ dosage: '', days: '' }],
+      batches: [{ quantity: '', expiryDate: null, lotNumber: '' }],
+      stockAlert: '',
+      refillReminderDays: String(DEFAULT_REFILL_REMINDER_DAYS),
+      packSize: '',
+      category: 'other',
+      priority: 'medium',
+      sound: null,
+      preReminderMinutes: 0,
+      preReminderNote: '',
+      deviceKind: null,
+      deviceCapacity: '',
+      deviceDiscardDays: '',
+      deviceOpenedAt: new Date(),
+      deviceLowAlert: '',
+      notes: '',
+    });
+    setValidationErrors({});
+    setShowAddForm(false);
+    
+    Alert.alert('نجح ✅', 'تم إضافة الدواء بنجاح إلى قائمة التذكيرات', [
+      { text: 'رائع!', style: 'default' }
+    ]);
+  };
+
+  // Add new time slot
+  const addTimeSlot = () => {
+    setNewMedicine({
+      ...newMedicine,
+      times: [...newMedicine.times, ''],
+      timeAnchors: [...newMedicine.timeAnchors, null],
+      timeAmounts: [...newMedicine.timeAmounts, null]
+    });
+  };
+
+  // Remove time slot
+  const removeTimeSlot = (index: number) => {
+    if (newMedicine.times.length > 1) {
+      const newTimes = newMedicine.times.filter((_, i) => i !== index);
+      setNewMedicine({
+        ...newMedicine,
+        times: newTimes,
+        timeAnchors: newMedicine.timeAnchors.filter((_, i) => i !== index),
+        timeAmounts: newMedicine.timeAmounts.filter((_, i) => i !== index)
+      });
+    }
+  };
+
+  // Set or clear the routine anchor of a time slot, resolving its clock time from the routine
+  const setTimeAnchor = (index: number, anchor: DoseTimeAnchor | null) => {
+    const newTimes = [...newMedicine.times];
+    if (anchor) {
+      const resolved = resolveAnchorTime(anchor, settings);
+      if (!resolved) {
+        Alert.alert('تنبيه', 'حدد موقعك في الإعدادات أولاً لحساب مواقيت الصلاة');
+        return;
+      }
+      newTimes[index] = resolved;
+    }
+    const newAnchors = [...newMedicine.timeAnchors];
+    newAnchors[index] = anchor;
+    setNewMedicine({...newMedicine, times: newTimes, timeAnchors: newAnchors});
+    if (validationErrors.time) {
+      setValidationErrors({...validationErrors, time: undefined});
+    }
+  };
+
+  // Change the anchor or offset of a time that is already linked
+  const updateTimeAnchor = (index: number, change: Partial<DoseTimeAnchor>) => {
+    const anchor = newMedicine.timeAnchors[index];
+    if (anchor) {
+      setTimeAnchor(index, { ...anchor, ...change });
+    }
+  };
+
+  // Toggle weekly day
+  const toggleWeeklyDay = (dayIndex: number) => {
+    const currentDays = newMedicine.weeklyDays;
+    const updatedDays = currentDays.includes(dayIndex)
+      ? currentDays.filter(day => day !== dayIndex)
+      : [...currentDays, dayIndex];
+    
+    setNewMedicine({
+      ...newMedicine,
+      weeklyDays: updatedDays
+    });
+  };
+
+  // Toggle medicine active status, confirming before a course is stopped early
+  const toggleMedicine = (id: string) => {
+    const medicine = medicines.find(med => med.id === id);
+    if (!medicine) return;
+
+    // A finished course restarts without an end when switched back on
+    const toggle = () => setMedicines(prev => prev.map(med => 
+      med.id === id
+        ? { ...med, isActive: !med.isActive, course: med.course?.completedAt ? undefined : med.course }
+        : med
+    ));
+
+    if (medicine.isActive && medicine.course && !isCourseComplete(medicine, new Date())) {
+      const progress = getCourseProgress(medicine, new Date());
+      const progressText = progress?.totalDoses
+        ? `تم تناول ${progress.dosesTaken} من ${progress.totalDoses} جرعة`
+        : `اليوم ${progress?.day} من ${progress?.totalDays}`;
+      Alert.alert(
+        'إيقاف العلاج مبكراً؟ ⚠️',
+        `لم يكتمل علاج ${medicine.name} بعد (${progressText}). إيقاف المضادات الحيوية وبعض الأدوية قبل نهاية المدة قد يقلل فعاليتها. استشر طبيبك قبل الإيقاف.`,
+        [
+          { text: 'إلغاء', style: 'cancel' },
+          { text: 'إيقاف', style: 'destructive', onPress: toggle },
+        ]
+      );
+      return;
+    }
+
+    toggle();
+  };
+
+  // Take an as-needed dose now, within its minimum gap and daily maximum
+  const takeAsNeeded = (medicine: Medicine) => {
+    const now = new Date();
+    const status = getAsNeededStatus(medicine, intakeEvents, now);
+    if (!status.canTake) {
+      Alert.alert(
+        '⛔ لا يمكن تناول جرعة الآن',
+        status.limitReached
+          ? `وصلت إلى الحد الأقصى (${medicine.asNeeded?.maxDailyDoses} جرعات خلال 24 ساعة).\nالجرعة التالية مسموحة ${getTimeUntilNext(medicine)}`
+          : `يجب أن تمر ${medicine.asNeeded?.minIntervalHours} ساعات على الأقل بين الجرعات.\nالجرعة التالية مسموحة ${getTimeUntilNext(medicine)}`
+      );
+      return;
+    }
+
+    markAsTaken(medicine.id, { slotKey: getSlotKey(now, toTimeString(now)) });
+  };
+
+  // Delete medicine with confirmation
+  const deleteMedicine = (id: string) => {
+    Alert.alert(
+      'تأكيد الحذف 🗑️',
+      'هل أنت متأكد من حذف هذا الدواء نهائياً؟',
+      [
+        { text: 'إلغاء', style: 'cancel' },
+        {
+          text: 'حذف',
+          style: 'destructive',
+          onPress: () => {
+            setMedicines(prev => prev.filter(med => med.id !== id));
+            Alert.alert('تم الحذف ✅', 'تم حذف الدواء من قائمة التذكيرات');
+          },
+        },
+      ]
+    );
+  };
+
+  // Format time display
+  const formatTime = (time: string) => {
+    const [hours, minutes] = time.split(':');
+    const hour12 = parseInt(hours) > 12 ? parseInt(hours) - 12 : parseInt(hours);
+    const ampm = parseInt(hours) >= 12 ? 'مساءً' : 'صباحاً';
+    return `${hour12 === 0 ? 12 : hour12}:${minutes} ${ampm}`;
+  };
+
+  // Get time until next dose
+  const getTimeUntilNext = (medicine: Medicine) => {
+    const now = new Date();
+    
+    let timeDiff: number;
+    if (medicine.frequency === 'asNeeded') {
+      const status = getAsNeededStatus(medicine, intakeEvents, now);
+      if (status.canTake) {
+        return 'مسموح الآن';
+      }
+      timeDiff = Math.ceil((status.nextAllowedAt.getTime() - now.getTime()) / (60 * 1000));
+    } else if (medicine.frequency === 'interval') {
+      timeDiff = Math.ceil((getNextIntervalDose(medicine).getTime() - now.getTime()) / (60 * 1000));
+      if (timeDiff <= 0) {
+        return 'حان الآن';
+      }
+    } else {
+      const next = getNextScheduledSlot(medicine, now);
+      if (!isWeeklyDayActive(medicine)) {
+        return next
+          ? `ليس اليوم · التالي ${next.toLocaleDateString('ar-EG', { weekday: 'long', day: 'numeric', month: 'long' })}`
+          : 'ليس اليوم';
+      }
+      if (!next) return 'لا توجد جرعات قادمة';
+      timeDiff = Math.ceil((next.getTime() - now.getTime()) / (60 * 1000));
+    }
+
+    const hoursLeft = Math.floor(timeDiff / 60);
+    const minutesLeft = timeDiff % 60;
+    
+    if (hoursLeft <= 0) {
+      return `خلال ${minutesLeft} دقيقة`;
+    }
+    return `خلال ${hoursLeft} ساعة و ${minutesLeft} دقيقة`;
+  };
+
+  // Handle time picker
+  const onTimeChange = (event: any, selectedTime?: Date) => {
+    setShowTimePicker(Platform.OS === 'ios');
+    if (selectedTime) {
+      setSelectedTime(selectedTime);
+      const timeString = `${selectedTime.getHours().toString().padStart(2, '0')}:${selectedTime.getMinutes().toString().padStart(2, '0')}`;
+      const newTimes = [...newMedicine.times];
+      newTimes[currentTimeIndex] = timeString;
+      // A picked clock time replaces any routine anchor
+      const newAnchors = [...newMedicine.timeAnchors];
+      newAnchors[currentTimeIndex] = null;
+      setNewMedicine({...newMedicine, times: newTimes, timeAnchors: newAnchors});
+      if (validationErrors.time) {
+        setValidationErrors({...validationErrors, time: undefined});
+      }
+    }
+  };
+
+  // Taper plan steps
+  const updateTaperStep = (index: number, field: 'dosage' | 'days', text: string) => {
+    const taperSteps = newMedicine.taperSteps.map((step, i) => i === index ? { ...step, [field]: text } : step);
+    setNewMedicine({...newMedicine, taperSteps});
+    if (validationErrors.taper) {
+      setValidationErrors({...validationErrors, taper: undefined});
+    }
+  };
+
+  const addTaperStep = () => {
+    setNewMedicine({...newMedicine, taperSteps: [...newMedicine.taperSteps, { dosage: '', days: '' }]});
+  };
+
+  const removeTaperStep = (index: number) => {
+    if (newMedicine.taperSteps.length > 1) {
+      setNewMedicine({...newMedicine, taperSteps: newMedicine.taperSteps.filter((_, i) => i !== index)});
+    }
+  };
+
+  // Handle course end date picker
+  const onCourseEndChange = (event: any, selectedDate?: Date) => {
+    setShowCourseEndPicker(Platform.OS === 'ios');
+    if (selectedDate) {
+      setNewMedicine({...newMedicine, courseEndDate: selectedDate});
+      if (validationErrors.course) {
+        setValidationErrors({...validationErrors, course: undefined});
+      }
+    }
+  };
+
+  // Handle device opened date picker
+  const onDeviceOpenedChange = (event: any, selectedDate?: Date) => {
+    setShowDeviceOpenedPicker(Platform.OS === 'ios');
+    if (selectedDate) {
+      setNewMedicine({...newMedicine, deviceOpenedAt: selectedDate});
+    }
+  };
+
+  const handleCourseTotalDosesChange = (text: string) => {
+    setNewMedicine({...newMedicine, courseTotalDoses: text});
+    if (validationErrors.course) {
+      setValidationErrors({...validationErrors, course: undefined});
+    }
+  };
+
+  // Handle cycle start date picker
+  const onCycleStartChange = (event: any, selectedDate?: Date) => {
+    setShowCycleStartPicker(Platform.OS === 'ios');
+    if (selectedDate) {
+      setNewMedicine({...newMedicine, cycleStartDate: selectedDate});
+    }
+  };
+
+  const handleCycleFieldChange = (
+    field: 'cycleInterval' | 'cycleOnDays' | 'cycleOffDays' | 'cycleMonthDays',
+    text: string
+  ) => {
+    setNewMedicine({...newMedicine, [field]: text});
+    if (validationErrors.cycle) {
+      setValidationErrors({...validationErrors, cycle: undefined});
+    }
+  };
+
+  // Handle routine time picker in settings
+  const onRoutineTimeChange = (event: any, selectedDate?: Date) => {
+    const anchor = routinePickerAnchor;
+    setRoutinePickerAnchor(Platform.OS === 'ios' ? anchor : null);
+    if (selectedDate && anchor) {
+      updateRoutine(anchor, toTimeString(selectedDate));
+    }
+  };
+
+  // Handle quiet hours time pickers in settings
+  const onQuietHoursPickerChange = (event: any, selectedDate?: Date) => {
+    const field = quietHoursPicker;
+    setQuietHoursPicker(Platform.OS === 'ios' ? field : null);
+    if (selectedDate && field) {
+      updateQuietHours({ [field]: toTimeString(selectedDate) });
+    }
+  };
+
+  // Handle fasting time and date pickers in settings
+  const onFastingPickerChange = (event: any, selectedDate?: Date) => {
+    const field = fastingPicker;
+    setFastingPicker(Platform.OS === 'ios' ? field : null);
+    if (!selectedDate || !field) return;
+    if (field === 'suhoor' || field === 'iftar') {
+      updateFasting({ [field]: toTimeString(selectedDate) });
+    } else {
+      updateFasting({ [field]: getSlotDate(selectedDate, '00:00').toISOString() });
+    }
+  };
+
+  // Handle input changes
+  const handleNameChange = (text: string) => {
+    setNewMedicine({...newMedicine, name: text});
+    if (validationErrors.name) {
+      setValidationErrors({...validationErrors, name: undefined});
+    }
+  };
+
+  const handleDosageChange = (text: string) => {
+    setNewMedicine({...newMedicine, dosage: text});
+    if (validationErrors.dosage) {
+      setValidationErrors({...validationErrors, dosage: undefined});
+    }
+  };
+
+  // Step the dose amount by the form's smallest part, e.g. half a tablet
+  const changeDoseAmount = (direction: 1 | -1) => {
+    const step = DOSE_FORMS[newMedicine.doseForm].step;
+    const doseAmount = Math.min(100, Math.max(step, newMedicine.doseAmount + direction * step));
+    setNewMedicine({...newMedicine, doseAmount});
+    if (validationErrors.dosage) {
+      setValidationErrors({...validationErrors, dosage: undefined});
+    }
+  };
+
+  const changeSlotAmount = (index: number, direction: 1 | -1) => {
+    const step = DOSE_FORMS[newMedicine.doseForm].step;
+    const current = newMedicine.timeAmounts[index] ?? newMedicine.doseAmount;
+    const timeAmounts = [...newMedicine.timeAmounts];
+    timeAmounts[index] = Math.min(100, Math.max(step, current + direction * step));
+    setNewMedicine({...newMedicine, timeAmounts});
+  };
+
+  const handleAsNeededChange = (field: 'asNeededMinInterval' | 'asNeededMaxDaily', text: string) => {
+    setNewMedicine({...newMedicine, [field]: text});
+    if (validationErrors.asNeeded) {
+      setValidationErrors({...validationErrors, asNeeded: undefined});
+    }
+  };
+
+  const handleIntervalHoursChange = (text: string) => {
+    setNewMedicine({...newMedicine, intervalHours: text});
+    if (validationErrors.interval) {
+      setValidationErrors({...validationErrors, interval: undefined});
+    }
+  };
+
+  const handleBatchChange = (index: number, field: 'quantity' | 'lotNumber', text: string) => {
+    const batches = newMedicine.batches.map((batch, i) => i === index ? { ...batch, [field]: text } : batch);
+    setNewMedicine({...newMedicine, batches});
+    if (validationErrors.stock) {
+      setValidationErrors({...validationErrors, stock: undefined});
+    }
+  };
+
+  const addBatch = () => {
+    setNewMedicine({
+      ...newMedicine,
+      batches: [...newMedicine.batches, { quantity: '', expiryDate: null, lotNumber: '' }]
+    });
+  };
+
+  const removeBatch = (index: number) => {
+    setNewMedicine({...newMedicine, batches: newMedicine.batches.filter((_, i) => i !== index)});
+  };
+
+  const onBatchExpiryChange = (event: any, selectedDate?: Date) => {
+    const index = batchExpiryPicker;
+    setBatchExpiryPicker(Platform.OS === 'ios' ? index : null);
+    if (selectedDate && index !== null) {
+      const batches = newMedicine.batches.map((batch, i) => i === index ? { ...batch, expiryDate: selectedDate } : batch);
+      setNewMedicine({...newMedicine, batches});
+    }
+  };
+
+  // Throw away expired batches once they have been disposed of
+  const discardExpiredBatches = (id: string) => {
+    const medicine = medicines.find(med => med.id === id);
+    if (!medicine) return;
+    const now = new Date();
+    setRestocks(prev => [...prev, {
+      id: `${Date.now()}`,
+      medicineId: id,
+      date: now.toISOString(),
+      quantity: -getExpiredStock(medicine, now),
+    }]);
+    setMedicines(prev => prev.map(med => med.id === id && med.batches
+      ? { ...med, batches: med.batches.filter(batch => !isBatchExpired(batch, now)) }
+      : med
+    ));
+  };
+
+  // Picking a device fills in its usual capacity and switches the dose to the unit it counts in
+  const selectDeviceKind = (kind: DeviceKind | null) => {
+    setNewMedicine({
+      ...newMedicine,
+      deviceKind: kind,
+      deviceCapacity: kind ? String(DEVICE_KINDS[kind].capacity) : '',
+      deviceDiscardDays: kind && DEVICE_KINDS[kind].discardAfterDays ? String(DEVICE_KINDS[kind].discardAfterDays) : '',
+      deviceOpenedAt: new Date(),
+      deviceLowAlert: '',
+      doseForm: kind ? DEVICE_KINDS[kind].form : newMedicine.doseForm,
+      doseAmount: kind && newMedicine.doseForm !== DEVICE_KINDS[kind].form ? 1 : newMedicine.doseAmount,
+    });
+    if (validationErrors.device) {
+      setValidationErrors({...validationErrors, device: undefined});
+    }
+  };
+
+  // Start counting a freshly opened device from full
+  const replaceDevice = (id: string) => {
+    Alert.alert(
+      'فتح عبوة جديدة 🔄',
+      'سيبدأ العد من السعة الكاملة ومن تاريخ اليوم',
+      [
+        { text: 'إلغاء', style: 'cancel' },
+        {
+          text: 'تأكيد',
+          onPress: () => setMedicines(prev => prev.map(med => med.id === id && med.device
+            ? { ...med, device: { ...med.device, remaining: med.device.capacity, openedAt: new Date().toISOString() } }
+            : med
+          )),
+        },
+      ]
+    );
+  };
+
+  const restockingMedicine = medicines.find(med => med.id === restockMedicineId);
+
+  const openRestock = (medicine: Medicine) => {
+    setRestockForm({
+      quantity: medicine.packSize ? String(medicine.packSize) : '',
+      expiryDate: null,
+      lotNumber: '',
+      pharmacy: '',
+      price: '',
+    });
+    setRestockMedicineId(medicine.id);
+  };
+
+  const onRestockExpiryChange = (event: any, selectedDate?: Date) => {
+    setShowRestockExpiryPicker(Platform.OS === 'ios');
+    if (selectedDate) {
+      setRestockForm({...restockForm, expiryDate: selectedDate});
+    }
+  };
+
+  // Add a refill to stock and log it. Medicines still on a plain count stay on one
+  const saveRestock = () => {
+    const medicine = restockingMedicine;
+    const quantity = Number(restockForm.quantity);
+    const price = Number(restockForm.price);
+    const { expiryDate } = restockForm;
+    if (!medicine) return;
+    if (restockForm.quantity === '' || isNaN(quantity) || quantity <= 0) {
+      Alert.alert('خطأ ❌', 'يرجى إدخال كمية صحيحة');
+      return;
+    }
+    if (restockForm.price !== '' && (isNaN(price) || price < 0)) {
+      Alert.alert('خطأ ❌', 'يرجى إدخال سعر صحيح');
+      return;
+    }
+    if ((medicine.batches || medicine.stock === undefined) && !expiryDate) {
+      Alert.alert('خطأ ❌', 'يرجى اختيار تاريخ الانتهاء');
+      return;
+    }
+
+    const now = new Date();
+    setMedicines(prev => prev.map(med => {
+      if (med.id !== medicine.id) return med;
+      if (med.stock !== undefined && !med.batches) {
+        return { ...med, stock: med.stock + quantity };
+      }
+      if (!expiryDate) return med;
+      const batch: StockBatch = {
+        id: `${Date.now()}`,
+        quantity,
+        expiryDate: getSlotDate(expiryDate, '00:00').toISOString(),
+        lotNumber: restockForm.lotNumber.trim() || undefined,
+      };
+      return { ...med, batches: [...(med.batches || []), batch] };
+    }));
+    setRestocks(prev => [...prev, {
+      id: `${Date.now()}`,
+      medicineId: medicine.id,
+      date: now.toISOString(),
+      quantity,
+      pharmacy: restockForm.pharmacy.trim() || undefined,
+      price: restockForm.price !== '' ? price : undefined,
+    }]);
+    setRestockMedicineId(null);
+    Alert.alert('تم ✅', `تمت إضافة ${formatStock(medicine, quantity)} إلى مخزون ${medicine.name}`);
+  };
+
+  // Filter and sort medicines
+  const getFilteredAndSortedMedicines = () => {
+    let filtered = medicines;
+    
+    // Filter by category
+    if (selectedCategory !== 'all') {
+      filtered = filtered.filter(med => med.category === selectedCategory);
+    }
+    
+    // Sort medicines
+    filtered = [...filtered].sort((a, b) => {
+      switch (sortBy) {
+        case 'name':
+          return a.name.localeCompare(b.name, 'ar');
+        case 'priority':
+          const priorityOrder = { critical: 4, high: 3, medium: 2, low: 1 };
+          return priorityOrder[b.priority] - priorityOrder[a.priority];
+        case 'category':
+          return a.category.localeCompare(b.category);
+        case 'time':
+        default:
+          if (a.times[0] && b.times[0]) {
+            return a.times[0].localeCompare(b.times[0]);
+          }
+          return 0;
+      }
+    });
+    
+    return filtered;
+  };
+
+  // Get enhanced statistics
+  const getStatistics = () => {
+    const activeMedicines = medicines.filter(med => med.isActive).length;
+    const totalMedicines = medicines.length;
+    const today = new Date();
+    const todaySlots = medicines
+      .filter(med => med.isActive)
+      .flatMap(med => getDaySlots(med, today));
+    const todayTaken = todaySlots.filter(slot => slot.status === 'taken').length;
+    const todayScheduled = todaySlots.length;
+
+    const lowStockMedicines = medicines.filter(med => isLowStock(med, today) || (med.device && isDeviceLow(med.device))).length;
+    const expiredStockMedicines = medicines.filter(med =>
+      getExpiredStock(med, today) > 0 || (med.device && isDeviceDiscardDue(med.device, today))
+    ).length;
+
+    const criticalMedicines = medicines.filter(med => med.priority === 'critical').length;
+
+    // Category breakdown
+    const categoryStats: Record<string, number> = {};
+    medicines.forEach(med => {
+      categoryStats[med.category] = (categoryStats[med.category] || 0) + 1;
+    });
+
+    return { 
+      activeMedicines, 
+      totalMedicines, 
+      todayTaken, 
+      todayScheduled,
+      lowStockMedicines, 
+      expiredStockMedicines,
+      criticalMedicines,
+      categoryStats
+    };
+  };
+
+  // Get intake history for the selected medicine and day, newest first
+  const getHistoryEvents = () => {
+    const dayKey = toDateKey(historyDate);
+    return intakeEvents
+      .filter(event => historyMedicineId === 'all' || event.medicineId === historyMedicineId)
+      .filter(event => event.slotKey.startsWith(dayKey))
+      .sort((a, b) => b.actualAt.localeCompare(a.actualAt));
+  };
+
+  // Medicines that appear in the history, including deleted ones
+  const getHistoryMedicines = () => {
+    const names = new Map<string, string>();
+    intakeEvents.forEach(event => names.set(event.medicineId, event.medicineName));
+    medicines.forEach(med => names.set(med.id, med.name));
+    return [...names.entries()];
+  };
+
+  // Move the history view by a number of days
+  const shiftHistoryDate = (days: number) => {
+    const next = new Date(historyDate);
+    next.setDate(next.getDate() + days);
+    setHistoryDate(next);
+  };
+
+  const stats = getStatistics();
+  const filteredMedicines = getFilteredAndSortedMedicines();
+
+  if (isLoading) {
+    return (
+      <LinearGradient
+        colors={['#667EEA', '#764BA2'] as [string, string]}
+        style={styles.container}
+      >
+        <SafeAreaView style={styles.container}>
+          <StatusBar barStyle="light-content" backgroundColor="#667EEA" />
+          <View style={styles.loadingContainer}>
+            <RNAnimated.View style={[styles.loadingContent, { opacity: fadeAnimation }]}>
+              <RNAnimated.View style={[
+                styles.loadingIconContainer,
+                {
+                  transform: [{
+                    rotate: floatingAnimation.interpolate({
+                      inputRange: [0, 1],
+                      outputRange: ['0deg', '360deg']
+                    })
+                  }]
+                }
+              ]}>
+                <Text style={styles.loadingIcon}>💊</Text>
+              </RNAnimated.View>
+              <Text style={styles.loadingText}>جاري التحميل...</Text>
+              <View style={styles.loadingBar}>
+                <RNAnimated.View style={[
+                  styles.loadingProgress,
+                  {
+                    transform: [{
+                      scaleX: fadeAnimation.interpolate({
+                        inputRange: [0, 1],
+                        outputRange: [0, 1]
+                      })
+                    }]
+                  }
+                ]} />
+              </View>
+            </RNAnimated.View>
+          </View>
+        </SafeAreaView>
+      </LinearGradient>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar barStyle="light-content" backgroundColor="#667EEA" />
+      
+      {/* Enhanced Header with Gradient */}
+      <LinearGradient
+        colors={['#667EEA', '#764BA2', '#667EEA'] as [string, string, string]}
+        start={{ x: 0, y: 0 }}
+        end={{ x: 1, y: 1 }}
+        style={styles.headerGradient}
+      >
+        <RNAnimated.View style={[
+          styles.header,
+          {
+            opacity: headerAnimation,
+            transform: [{
+              translateY: headerAnimation.interpolate({
+                inputRange: [0, 1],
+                outputRange: [-50, 0]
+              })
+            }]
+          }
+        ]}>
+          {/* Floating Decorative Elements */}
+          <RNAnimated.View style={[
+            styles.floatingDecor,
+            styles.floatingDecor1,
+            {
+              transform: [{
+                translateY: floatingAnimation.interpolate({
+                  inputRange: [0, 1],
+                  outputRange: [0, -10]
+                })
+              }]
+            }
+          ]}>
+            <Text style={styles.decorEmoji}>✨</Text>
+          </RNAnimated.View>
+          
+          <RNAnimated.View style={[
+            styles.floatingDecor,
+            styles.floatingDecor2,
+            {
+              transform: [{
+                translateY: floatingAnimation.interpolate({
+                  inputRange: [0, 1],
+                  outputRange: [0, 15]
+                })
+              }]
+            }
+          ]}>
+            <Text style={styles.decorEmoji}>🏥</Text>
+          </RNAnimated.View>
+
+          <View style={styles.headerContent}>
+            <View style={styles.headerTitleContainer}>
+              <Text style={styles.headerTitle}>💊 تذكير الأدوية</Text>
+              <Text style={styles.headerSubtitle}>اعتني بصحتك بذكاء وعناية</Text>
+            </View>
+            
+            {/* Enhanced Statistics Dashboard */}
+            <View style={styles.statsContainer}>
+              <View style={styles.statsGrid}>
+                <View style={[styles.statCard, styles.primaryStatCard]}>
+                  <LinearGradient
+                    colors={['#10B981', '#059669'] as [string, string]}
+                    style={styles.statCardGradient}
+                  >
+                    <Text style={styles.statNumber}>{stats.activeMedicines}</Text>
+                    <Text style={styles.statLabel}>نشط</Text>
+                    <Text style={styles.statIcon}>🟢</Text>
+                  </LinearGradient>
+                </View>
+                
+                <View style={[styles.statCard, styles.secondaryStatCard]}>
+                  <LinearGradient
+                    colors={['#3B82F6', '#2563EB'] as [string, string]}
+                    style={styles.statCardGradient}
+                  >
                     <Text style={styles.statNumber}>{stats.totalMedicines}</Text>
                     <Text style={styles.statLabel}>المجموع</Text>
                     <Text style={styles.statIcon}>📊</Text>
                   </LinearGradient>
                 </View>
                 
-                <View style={[styles.statCard, styles.successStatCard]}>
+                <View style={[styles.statCard, styles.successStatCard]}>
+                  <LinearGradient
+                    colors={['#059669', '#047857'] as [string, string]}
+                    style={styles.statCardGradient}
+                  >
+                    <Text style={styles.statNumber}>{stats.todayTaken}/{stats.todayScheduled}</Text>
+                    <Text style={styles.statLabel}>اليوم</Text>
+                    <Text style={styles.statIcon}>✅</Text>
+                  </LinearGradient>
+                </View>
+                
+                {stats.criticalMedicines > 0 && (
+                  <View style={[styles.statCard, styles.criticalStatCard]}>
+                    <LinearGradient
+                      colors={['#DC2626', '#B91C1C'] as [string, string]}
+                      style={styles.statCardGradient}
+                    >
+                      <Text style={styles.statNumber}>{stats.criticalMedicines}</Text>
+                      <Text style={styles.statLabel}>حرجة</Text>
+                      <Text style={styles.statIcon}>🔴</Text>
+                    </LinearGradient>
+                  </View>
+                )}
+                
+                {stats.lowStockMedicines > 0 && (
+                  <View style={[styles.statCard, styles.warningStatCard]}>
+                    <LinearGradient
+                      colors={['#F59E0B', '#D97706'] as [string, string]}
+                      style={styles.statCardGradient}
+                    >
+                      <Text style={styles.statNumber}>{stats.lowStockMedicines}</Text>
+                      <Text style={styles.statLabel}>مخزون منخفض</Text>
+                      <Text style={styles.statIcon}>⚠️</Text>
+                    </LinearGradient>
+                  </View>
+                )}
+
+                {stats.expiredStockMedicines > 0 && (
+                  <View style={[styles.statCard, styles.criticalStatCard]}>
+                    <LinearGradient
+                      colors={['#7F1D1D', '#991B1B'] as [string, string]}
+                      style={styles.statCardGradient}
+                    >
+                      <Text style={styles.statNumber}>{stats.expiredStockMedicines}</Text>
+                      <Text style={styles.statLabel}>منتهي الصلاحية</Text>
+                      <Text style={styles.statIcon}>⛔</Text>
+                    </LinearGradient>
+                  </View>
+                )}
+              </View>
+            </View>
+            
+            {/* Enhanced Status Indicator */}
+            <View style={styles.statusIndicatorContainer}>
+              <LinearGradient
+                colors={['rgba(16, 185, 129, 0.2)', 'rgba(16, 185, 129, 0.1)'] as [string, string]}
+                style={styles.statusIndicator}
+              >
+                <RNAnimated.View style={[
+                  styles.statusDot,
+                  {
+                    transform: [{
+                      scale: pulseAnimation.interpolate({
+                        inputRange: [0.9, 1.2],
+                        outputRange: [0.8, 1.2],
+                        extrapolate: 'clamp'
+                      })
+                    }]
+                  }
+                ]} />
+                <Text style={styles.statusText}>التذكيرات نشطة الآن</Text>
+                <Text style={styles.statusSubtext}>المراقبة المستمرة 24/7</Text>
+              </LinearGradient>
+            </View>
+          </View>
+        </RNAnimated.View>
+      </LinearGradient>
+
+      {/* Enhanced Full Screen Alarm Modal */}
+      <Modal
+        visible={showAlarmModal}
+        animationType="none"
+        transparent={false}
+        onRequestClose={() => {}}
+      >
+        <LinearGradient
+          colors={['#DC2626', '#B91C1C', '#991B1B'] as [string, string, string]}
+          style={styles.alarmContainer}
+        >
+          <SafeAreaView style={styles.alarmContainer}>
+            <StatusBar barStyle="light-content" backgroundColor="#DC2626" />
+            
+            {/* Animated Background Pattern */}
+            <View style={styles.alarmBackgroundPattern}>
+              {[...Array(20)].map((_, i) => (
+                <RNAnimated.View
+                  key={i}
+                  style={[
+                    styles.patternDot,
+                    {
+                      left: (i % 5) * 20,
+                      top: Math.floor(i / 5) * 25,
+                      transform: [{
+                        scale: pulseAnimation.interpolate({
+                          inputRange: [0.9, 1.2],
+                          outputRange: [0.3, 0.8],
+                          extrapolate: 'clamp'
+                        })
+                      }]
+                    }
+                  ]}
+                />
+              ))}
+            </View>
+            
+            <RNAnimated.View style={[
+              styles.alarmContent, 
+              { 
+                transform: [
+                  { scale: alarmScaleAnimation },
+                  { scale: pulseAnimation }
+                ] 
+              }
+            ]}>
+              {/* Enhanced Alarm Icon */}
+              <View style={styles.alarmIconContainer}>
+                <LinearGradient
+                  colors={['rgba(255, 255, 255, 0.3)', 'rgba(255, 255, 255, 0.1)'] as [string, string]}
+                  style={styles.alarmIconOuter}
+                >
+                  <LinearGradient
+                    colors={['rgba(255, 255, 255, 0.4)', 'rgba(255, 255, 255, 0.2)'] as [string, string]}
+                    style={styles.alarmIconInner}
+                  >
+                    <Text style={styles.alarmIconText}>🚨</Text>
+                    <View style={styles.alarmIconRing} />
+                  </LinearGradient>
+                </LinearGradient>
+              </View>
+              
+              <Text style={styles.alarmTitle}>حان وقت الدواء!</Text>
+              <Text style={styles.alarmSubtitle}>لا تنسى العناية بصحتك</Text>
+              
+              {activeAlarm && (
+                <View style={styles.alarmDetails}>
+                  <View style={styles.alarmInfoGrid}>
+                    <View style={styles.alarmInfoItem}>
+                      <Text style={styles.alarmInfoIcon}>🕐</Text>
+                      <Text style={styles.alarmTime}>{formatTime(activeAlarm.doses[0].time)}</Text>
+                    </View>
+                  </View>
+
+                  <ScrollView style={styles.alarmDoseList}>
+                    {activeAlarm.doses.map(dose => (
+                      <LinearGradient
+                        key={`${dose.medicineId}-${dose.slotKey}`}
+                        colors={['rgba(255, 255, 255, 0.25)', 'rgba(255, 255, 255, 0.15)'] as [string, string]}
+                        style={styles.medicineNameCard}
+                      >
+                        <Text style={styles.alarmMedicineName}>💊 {dose.medicineName}</Text>
+                        <Text style={styles.alarmDosage}>💉 {dose.dosage}</Text>
+
+                        {dose.status ? (
+                          <Text style={styles.alarmDoseStatus}>
+                            {dose.status === 'taken' ? '✅ تم التناول' : '⏭️ تم التخطي'}
+                          </Text>
+                        ) : (
+                          <View style={styles.alarmDoseActions}>
+                            <TouchableOpacity
+                              style={styles.alarmDoseActionContainer}
+                              onPress={() => resolveAlarmDoses([dose], 'taken')}
+                            >
+                              <LinearGradient
+                                colors={['#10B981', '#059669'] as [string, string]}
+                                style={styles.alarmDoseAction}
+                              >
+                                <Text style={styles.alarmDoseActionText}>✅ تناول</Text>
+                              </LinearGradient>
+                            </TouchableOpacity>
+
+                            <TouchableOpacity
+                              style={styles.alarmDoseActionContainer}
+                              onPress={() => resolveAlarmDoses([dose], 'skipped')}
+                            >
+                              <LinearGradient
+                                colors={['rgba(0, 0, 0, 0.3)', 'rgba(0, 0, 0, 0.2)'] as [string, string]}
+                                style={styles.alarmDoseAction}
+                              >
+                                <Text style={styles.alarmDoseActionText}>⏭️ تخطي</Text>
+                              </LinearGradient>
+                            </TouchableOpacity>
+                          </View>
+                        )}
+                      </LinearGradient>
+                    ))}
+                  </ScrollView>
+                  
+                  {escalationStep > 0 && (
+                    <LinearGradient
+                      colors={['rgba(124, 58, 237, 0.6)', 'rgba(124, 58, 237, 0.3)'] as [string, string]}
+                      style={styles.snoozeCountContainer}
+                    >
+                      <Text style={styles.snoozeCount}>
+                        📢 تصعيد التنبيه {escalationStep}
+                      </Text>
+                    </LinearGradient>
+                  )}
+
+                  {activeAlarm.snoozeCount > 0 && (
+                    <LinearGradient
+                      colors={['rgba(0, 0, 0, 0.4)', 'rgba(0, 0, 0, 0.2)'] as [string, string]}
+                      style={styles.snoozeCountContainer}
+                    >
+                      <Text style={styles.snoozeCount}>
+                        🔄 تم التأجيل {activeAlarm.snoozeCount} مرة
+                      </Text>
+                    </LinearGradient>
+                  )}
+                </View>
+              )}
+              
+              <View style={styles.alarmButtons}>
+                <TouchableOpacity
+                  style={styles.takenAlarmButton}
+                  onPress={takeAllFromAlarm}
+                >
+                  <LinearGradient
+                    colors={['#10B981', '#059669'] as [string, string]}
+                    style={styles.alarmButtonGradient}
+                  >
+                    <Text style={styles.takenAlarmButtonText}>
+                      {activeAlarm && activeAlarm.doses.filter(dose => !dose.status).length > 1
+                        ? '✅ تناول الكل'
+                        : '✅ تم تناول الدواء'}
+                    </Text>
+                  </LinearGradient>
+                </TouchableOpacity>
+                
+                <View style={styles.alarmSecondaryButtons}>
+                  <TouchableOpacity
+                    style={styles.snoozeAlarmButton}
+                    onPress={() => snoozeAlarm()}
+                  >
+                    <LinearGradient
+                      colors={['rgba(255, 255, 255, 0.25)', 'rgba(255, 255, 255, 0.15)'] as [string, string]}
+                      style={styles.alarmButtonGradient}
+                    >
+                      <Text style={styles.snoozeAlarmButtonText}>⏰ تأجيل {settings.snoozeMinutes} دقائق</Text>
+                    </LinearGradient>
+                  </TouchableOpacity>
+                  
+                  <TouchableOpacity
+                    style={styles.stopAlarmButton}
+                    onPress={silenceAlarm}
+                  >
+                    <LinearGradient
+                      colors={['rgba(255, 255, 255, 0.25)', 'rgba(255, 255, 255, 0.15)'] as [string, string]}
+                      style={styles.alarmButtonGradient}
+                    >
+                      <Text style={styles.stopAlarmButtonText}>🔇 كتم الصوت</Text>
+                    </LinearGradient>
+                  </TouchableOpacity>
+                </View>
+
+                <View style={styles.snoozeOptions}>
+                  {SNOOZE_OPTIONS.filter(minutes => minutes !== settings.snoozeMinutes).map(minutes => (
+                    <TouchableOpacity
+                      key={minutes}
+                      style={styles.snoozeOptionButton}
+                      onPress={() => snoozeAlarm(minutes)}
+                    >
+                      <Text style={styles.snoozeOptionText}>{minutes} د</Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+            </RNAnimated.View>
+          </SafeAreaView>
+        </LinearGradient>
+      </Modal>
+
+      {/* Missed Doses Sheet */}
+      <Modal
+        visible={showMissedSheet}
+        animationType="slide"
+        transparent
+        onRequestClose={() => setShowMissedSheet(false)}
+      >
+        <View style={styles.missedSheetOverlay}>
+          <View style={styles.missedSheet}>
+            <LinearGradient
+              colors={['#F59E0B', '#D97706'] as [string, string]}
+              style={styles.missedSheetHeader}
+            >
+              <View style={styles.modalHeaderContent}>
+                <View style={styles.modalTitleContainer}>
+                  <Text style={styles.modalTitle}>⚠️ جرعات فائتة</Text>
+                  <Text style={styles.modalSubtitle}>
+                    {missedDoses.length} جرعة لم يتم تسجيلها
+                  </Text>
+                </View>
+                <TouchableOpacity
+                  onPress={() => setShowMissedSheet(false)}
+                  style={styles.closeButton}
+                >
                   <LinearGradient
-                    colors={['#059669', '#047857'] as [string, string]}
-                    style={styles.statCardGradient}
+                    colors={['rgba(255, 255, 255, 0.25)', 'rgba(255, 255, 255, 0.15)'] as [string, string]}
+                    style={styles.closeButtonGradient}
                   >
-                    <Text style={styles.statNumber}>{stats.todayTaken}</Text>
-                    <Text style={styles.statLabel}>اليوم</Text>
-                    <Text style={styles.statIcon}>✅</Text>
+                    <Text style={styles.closeButtonText}>✕</Text>
+                  </LinearGradient>
+                </TouchableOpacity>
+              </View>
+            </LinearGradient>
+
+            <ScrollView style={styles.missedSheetList}>
+              {missedDoses.map(dose => (
+                <View key={dose.id} style={styles.missedDoseItem}>
+                  <Text style={styles.missedDoseName}>💊 {dose.medicineName}</Text>
+                  <Text style={styles.missedDoseInfo}>
+                    🕐 {formatTime(dose.time)} - {new Date(dose.scheduledAt).toLocaleDateString('ar')}
+                  </Text>
+                  <Text style={styles.missedDoseInfo}>💉 {dose.dosage}</Text>
+
+                  <View style={styles.missedDoseActions}>
+                    <TouchableOpacity
+                      style={styles.missedDoseActionContainer}
+                      onPress={() => resolveMissedDose(dose, 'taken')}
+                    >
+                      <LinearGradient
+                        colors={['#10B981', '#059669'] as [string, string]}
+                        style={styles.missedDoseAction}
+                      >
+                        <Text style={styles.missedDoseActionText}>✅ تناولته متأخراً</Text>
+                      </LinearGradient>
+                    </TouchableOpacity>
+
+                    <TouchableOpacity
+                      style={styles.missedDoseActionContainer}
+                      onPress={() => resolveMissedDose(dose, 'skipped')}
+                    >
+                      <LinearGradient
+                        colors={['#F3F4F6', '#E5E7EB'] as [string, string]}
+                        style={styles.missedDoseAction}
+                      >
+                        <Text style={styles.missedDoseActionTextDark}>⏭️ تخطي</Text>
+                      </LinearGradient>
+                    </TouchableOpacity>
+
+                    <TouchableOpacity
+                      style={styles.missedDoseActionContainer}
+                      onPress={() => resolveMissedDose(dose, 'ignored')}
+                    >
+                      <LinearGradient
+                        colors={['#F3F4F6', '#E5E7EB'] as [string, string]}
+                        style={styles.missedDoseAction}
+                      >
+                        <Text style={styles.missedDoseActionTextDark}>🙈 تجاهل</Text>
+                      </LinearGradient>
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              ))}
+            </ScrollView>
+          </View>
+        </View>
+      </Modal>
+
+      {/* Settings Modal */}
+      <Modal visible={showSettings} animationType="slide" presentationStyle="pageSheet">
+        <LinearGradient
+          colors={['#F8FAFC', '#FFFFFF'] as [string, string]}
+          style={styles.modalContainer}
+        >
+          <SafeAreaView style={styles.modalContainer}>
+            <LinearGradient
+              colors={['#64748B', '#475569'] as [string, string]}
+              style={styles.modalHeader}
+            >
+              <View style={styles.modalHeaderContent}>
+                <View style={styles.modalTitleContainer}>
+                  <Text style={styles.modalTitle}>⚙️ الإعدادات</Text>
+                  <Text style={styles.modalSubtitle}>تخصيص سلوك التذكيرات</Text>
+                </View>
+                <TouchableOpacity
+                  onPress={() => setShowSettings(false)}
+                  style={styles.closeButton}
+                >
+                  <LinearGradient
+                    colors={['rgba(255, 255, 255, 0.25)', 'rgba(255, 255, 255, 0.15)'] as [string, string]}
+                    style={styles.closeButtonGradient}
+                  >
+                    <Text style={styles.closeButtonText}>✕</Text>
                   </LinearGradient>
+                </TouchableOpacity>
+              </View>
+            </LinearGradient>
+
+            <ScrollView style={styles.formContainer}>
+              {/* Snooze Settings */}
+              <View style={styles.inputContainer}>
+                <Text style={styles.inputLabel}>⏰ مدة التأجيل الافتراضية</Text>
+                <View style={styles.frequencyContainer}>
+                  {SNOOZE_OPTIONS.map(minutes => (
+                    <TouchableOpacity
+                      key={minutes}
+                      style={styles.frequencyButtonContainer}
+                      onPress={() => updateSettings({ snoozeMinutes: minutes })}
+                    >
+                      <LinearGradient
+                        colors={settings.snoozeMinutes === minutes ? ['#667EEA', '#764BA2'] as [string, string] : ['#F9FAFB', '#F3F4F6'] as [string, string]}
+                        style={styles.frequencyButton}
+                      >
+                        <Text style={[
+                          styles.frequencyButtonText,
+                          settings.snoozeMinutes === minutes && styles.frequencyButtonTextActive
+                        ]}>
+                          {minutes} د
+                        </Text>
+                      </LinearGradient>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+
+              <View style={styles.inputContainer}>
+                <Text style={styles.inputLabel}>🔁 الحد الأقصى للتأجيل حسب الأولوية</Text>
+                {Object.entries(PRIORITY_CONFIG).map(([key, priority]) => (
+                  <View key={key} style={styles.settingsRow}>
+                    <Text style={styles.settingsRowLabel}>{priority.icon} {priority.name}</Text>
+                    <View style={styles.stepper}>
+                      <TouchableOpacity
+                        style={styles.stepperButton}
+                        onPress={() => changeMaxSnoozes(key as MedicinePriority, -1)}
+                      >
+                        <Text style={styles.stepperButtonText}>−</Text>
+                      </TouchableOpacity>
+                      <Text style={styles.stepperValue}>{settings.maxSnoozes[key as MedicinePriority]}</Text>
+                      <TouchableOpacity
+                        style={styles.stepperButton}
+                        onPress={() => changeMaxSnoozes(key as MedicinePriority, 1)}
+                      >
+                        <Text style={styles.stepperButtonText}>+</Text>
+                      </TouchableOpacity>
+                    </View>
+                  </View>
+                ))}
+              </View>
+
+              {/* Quiet Hours */}
+              <View style={styles.inputContainer}>
+                <View style={styles.settingsRow}>
+                  <Text style={styles.settingsRowLabel}>🌙 ساعات الهدوء</Text>
+                  <Switch
+                    value={settings.quietHours.enabled}
+                    onValueChange={enabled => updateQuietHours({ enabled })}
+                  />
+                </View>
+
+                {settings.quietHours.enabled && (
+                  <>
+                    <View style={styles.settingsRow}>
+                      <Text style={styles.settingsRowLabel}>من</Text>
+                      <TouchableOpacity style={styles.routineTimeButton} onPress={() => setQuietHoursPicker('start')}>
+                        <Text style={styles.routineTimeText}>{formatTime(settings.quietHours.start)}</Text>
+                      </TouchableOpacity>
+                    </View>
+                    <View style={styles.settingsRow}>
+                      <Text style={styles.settingsRowLabel}>إلى</Text>
+                      <TouchableOpacity style={styles.routineTimeButton} onPress={() => setQuietHoursPicker('end')}>
+                        <Text style={styles.routineTimeText}>{formatTime(settings.quietHours.end)}</Text>
+                      </TouchableOpacity>
+                    </View>
+
+                    <Text style={[styles.cycleFieldLabel, styles.fastingFirstRow]}>التنبيه أثناء ساعات الهدوء حسب الأولوية</Text>
+                    {Object.entries(PRIORITY_CONFIG).map(([key, priority]) => (
+                      <View key={key} style={styles.settingsRow}>
+                        <Text style={styles.settingsRowLabel}>{priority.icon} {priority.name}</Text>
+                        <View style={styles.alertModeRow}>
+                          {ALERT_MODE_STRENGTH.map(mode => (
+                            <TouchableOpacity
+                              key={mode}
+                              style={[
+                                styles.anchorChip,
+                                settings.quietHours.modes[key as MedicinePriority] === mode && styles.anchorChipActive
+                              ]}
+                              onPress={() => updateQuietHours({
+                                modes: { ...settings.quietHours.modes, [key]: mode }
+                              })}
+                            >
+                              <Text style={[
+                                styles.anchorChipText,
+                                settings.quietHours.modes[key as MedicinePriority] === mode && styles.anchorChipTextActive
+                              ]}>
+                                {ALERT_MODE_CONFIG[mode].icon} {ALERT_MODE_CONFIG[mode].name}
+                              </Text>
+                            </TouchableOpacity>
+                          ))}
+                        </View>
+                      </View>
+                    ))}
+                  </>
+                )}
+
+                {quietHoursPicker && (
+                  <DateTimePicker
+                    value={getSlotDate(new Date(), settings.quietHours[quietHoursPicker])}
+                    mode="time"
+                    is24Hour={false}
+                    display="default"
+                    onChange={onQuietHoursPickerChange}
+                  />
+                )}
+              </View>
+
+              {/* Alarm Sounds */}
+              <View style={styles.inputContainer}>
+                <Text style={styles.inputLabel}>🎵 نغمات المنبه</Text>
+                <View style={styles.settingsRow}>
+                  <Text style={styles.settingsRowLabel}>رفع الصوت تدريجياً</Text>
+                  <View style={styles.alertModeRow}>
+                    {FADE_IN_OPTIONS.map(seconds => (
+                      <TouchableOpacity
+                        key={seconds}
+                        style={[styles.anchorChip, settings.sounds.fadeInSeconds === seconds && styles.anchorChipActive]}
+                        onPress={() => updateSounds({ fadeInSeconds: seconds })}
+                      >
+                        <Text style={[
+                          styles.anchorChipText,
+                          settings.sounds.fadeInSeconds === seconds && styles.anchorChipTextActive
+                        ]}>
+                          {seconds === 0 ? 'بدون' : `${seconds} ث`}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
                 </View>
-                
-                {stats.criticalMedicines > 0 && (
-                  <View style={[styles.statCard, styles.criticalStatCard]}>
-                    <LinearGradient
-                      colors={['#DC2626', '#B91C1C'] as [string, string]}
-                      style={styles.statCardGradient}
+
+                <Text style={[styles.cycleFieldLabel, styles.fastingFirstRow]}>نغمة كل فئة (يمكن تغييرها لكل دواء)</Text>
+                {(Object.keys(MEDICINE_CATEGORIES) as MedicineCategory[]).map(category => {
+                  const categorySound = settings.sounds.categories[category];
+                  return (
+                    <View key={category} style={styles.soundCategoryRow}>
+                      <Text style={styles.settingsRowLabel}>
+                        {MEDICINE_CATEGORIES[category].icon} {MEDICINE_CATEGORIES[category].name}
+                      </Text>
+                      <View style={styles.anchorChipsRow}>
+                        {(Object.keys(ALARM_TONES) as AlarmToneId[]).map(tone => {
+                          const isSelected = categorySound?.type === 'tone'
+                            ? categorySound.tone === tone
+                            : !categorySound && tone === DEFAULT_ALARM_TONE;
+                          return (
+                            <TouchableOpacity
+                              key={tone}
+                              style={[styles.anchorChip, isSelected && styles.anchorChipActive]}
+                              onPress={() => setCategorySound(category, tone === DEFAULT_ALARM_TONE ? null : { type: 'tone', tone })}
+                            >
+                              <Text style={[styles.anchorChipText, isSelected && styles.anchorChipTextActive]}>
+                                {ALARM_TONES[tone].icon}
+                              </Text>
+                            </TouchableOpacity>
+                          );
+                        })}
+                        <TouchableOpacity
+                          style={[styles.anchorChip, categorySound?.type === 'file' && styles.anchorChipActive]}
+                          onPress={() => chooseSoundFile(sound => setCategorySound(category, sound))}
+                        >
+                          <Text
+                            style={[styles.anchorChipText, categorySound?.type === 'file' && styles.anchorChipTextActive]}
+                            numberOfLines={1}
+                          >
+                            {categorySound?.type === 'file' ? getAlarmSoundLabel(categorySound) : '📁'}
+                          </Text>
+                        </TouchableOpacity>
+                      </View>
+                    </View>
+                  );
+                })}
+                <Text style={styles.stockAlertText}>
+                  {(Object.keys(ALARM_TONES) as AlarmToneId[]).map(tone => getAlarmSoundLabel({ type: 'tone', tone })).join('  ·  ')}
+                </Text>
+              </View>
+
+              {/* Vibration Patterns */}
+              <View style={styles.inputContainer}>
+                <Text style={styles.inputLabel}>📳 نمط الاهتزاز حسب الأولوية</Text>
+                {(Object.keys(PRIORITY_CONFIG) as MedicinePriority[]).map(priority => (
+                  <View key={priority}>
+                    <View style={styles.settingsRow}>
+                      <Text style={styles.settingsRowLabel}>
+                        {PRIORITY_CONFIG[priority].icon} {PRIORITY_CONFIG[priority].name}
+                      </Text>
+                      <View style={styles.alertModeRow}>
+                        <TouchableOpacity
+                          style={[styles.anchorChip, vibrationEditor === priority && styles.anchorChipActive]}
+                          onPress={() => setVibrationEditor(vibrationEditor === priority ? null : priority)}
+                        >
+                          <Text style={[styles.anchorChipText, vibrationEditor === priority && styles.anchorChipTextActive]}>
+                            {getVibrationPresetName(settings.vibration[priority])}
+                          </Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity
+                          style={styles.anchorChip}
+                          onPress={() => testVibration(settings.vibration[priority])}
+                        >
+                          <Text style={styles.anchorChipText}>▶️ تجربة</Text>
+                        </TouchableOpacity>
+                      </View>
+                    </View>
+
+                    {vibrationEditor === priority && (
+                      <View style={styles.anchorEditor}>
+                        <View style={styles.anchorChipsRow}>
+                          {(Object.keys(VIBRATION_PRESETS) as VibrationPresetId[]).map(presetId => {
+                            const preset = VIBRATION_PRESETS[presetId];
+                            const isSelected = preset.pattern.join() === settings.vibration[priority].join();
+                            return (
+                              <TouchableOpacity
+                                key={presetId}
+                                style={[styles.anchorChip, isSelected && styles.anchorChipActive]}
+                                onPress={() => updateVibration(priority, preset.pattern)}
+                              >
+                                <Text style={[styles.anchorChipText, isSelected && styles.anchorChipTextActive]}>
+                                  {preset.icon} {preset.name}
+                                </Text>
+                              </TouchableOpacity>
+                            );
+                          })}
+                        </View>
+
+                        <View style={styles.vibrationPreview}>
+                          {settings.vibration[priority].map((length, index) => (
+                            <View
+                              key={index}
+                              style={[
+                                index % 2 === 0 ? styles.vibrationPulse : styles.vibrationGap,
+                                { width: Math.max(length / 25, 3) }
+                              ]}
+                            />
+                          ))}
+                        </View>
+
+                        <View style={styles.anchorChipsRow}>
+                          <TouchableOpacity style={styles.anchorChip} onPress={() => addVibrationPulse(priority, 'short')}>
+                            <Text style={styles.anchorChipText}>+ نبضة قصيرة</Text>
+                          </TouchableOpacity>
+                          <TouchableOpacity style={styles.anchorChip} onPress={() => addVibrationPulse(priority, 'long')}>
+                            <Text style={styles.anchorChipText}>+ نبضة طويلة</Text>
+                          </TouchableOpacity>
+                          <TouchableOpacity style={styles.anchorChip} onPress={() => removeVibrationPulse(priority)}>
+                            <Text style={styles.anchorChipText}>− حذف الأخيرة</Text>
+                          </TouchableOpacity>
+                        </View>
+                      </View>
+                    )}
+                  </View>
+                ))}
+                <Text style={styles.stockAlertText}>
+                  اجعل لكل أولوية نمطاً مختلفاً لتمييز الجرعة الحرجة باللمس وحده
+                </Text>
+              </View>
+
+              {/* Daily Routine */}
+              <View style={styles.inputContainer}>
+                <Text style={styles.inputLabel}>🍽️ مواعيد يومك</Text>
+                {(Object.keys(ROUTINE_ANCHORS) as RoutineAnchor[]).map(anchor => (
+                  <View key={anchor} style={styles.settingsRow}>
+                    <Text style={styles.settingsRowLabel}>
+                      {ROUTINE_ANCHORS[anchor].icon} {ROUTINE_ANCHORS[anchor].name}
+                    </Text>
+                    <TouchableOpacity
+                      style={styles.routineTimeButton}
+                      onPress={() => setRoutinePickerAnchor(anchor)}
                     >
-                      <Text style={styles.statNumber}>{stats.criticalMedicines}</Text>
-                      <Text style={styles.statLabel}>حرجة</Text>
-                      <Text style={styles.statIcon}>🔴</Text>
-                    </LinearGradient>
+                      <Text style={styles.routineTimeText}>{formatTime(settings.routine[anchor])}</Text>
+                    </TouchableOpacity>
                   </View>
+                ))}
+                <Text style={styles.stockAlertText}>
+                  عند تغيير أي موعد تتحرك معه كل الجرعات المرتبطة به
+                </Text>
+                {routinePickerAnchor && (
+                  <DateTimePicker
+                    value={getSlotDate(new Date(), settings.routine[routinePickerAnchor])}
+                    mode="time"
+                    is24Hour={false}
+                    display="default"
+                    onChange={onRoutineTimeChange}
+                  />
                 )}
-                
-                {stats.lowStockMedicines > 0 && (
-                  <View style={[styles.statCard, styles.warningStatCard]}>
-                    <LinearGradient
-                      colors={['#F59E0B', '#D97706'] as [string, string]}
-                      style={styles.statCardGradient}
+              </View>
+
+              {/* Prayer Times */}
+              <View style={styles.inputContainer}>
+                <Text style={styles.inputLabel}>🕌 مواقيت الصلاة</Text>
+                <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.anchorChipsRow}>
+                  {PRESET_LOCATIONS.map(location => (
+                    <TouchableOpacity
+                      key={location.name}
+                      style={[
+                        styles.anchorChip,
+                        settings.prayer.locationName === location.name && styles.anchorChipActive
+                      ]}
+                      onPress={() => updatePrayer({
+                        locationName: location.name,
+                        latitude: location.latitude,
+                        longitude: location.longitude
+                      })}
                     >
-                      <Text style={styles.statNumber}>{stats.lowStockMedicines}</Text>
-                      <Text style={styles.statLabel}>مخزون منخفض</Text>
-                      <Text style={styles.statIcon}>⚠️</Text>
-                    </LinearGradient>
+                      <Text style={[
+                        styles.anchorChipText,
+                        settings.prayer.locationName === location.name && styles.anchorChipTextActive
+                      ]}>
+                        📍 {location.name}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </ScrollView>
+
+                <View style={styles.cycleFieldsRow}>
+                  <View style={styles.cycleField}>
+                    <Text style={styles.cycleFieldLabel}>خط العرض</Text>
+                    <TextInput
+                      style={styles.textInput}
+                      placeholder={settings.prayer.latitude?.toString() || '21.42'}
+                      placeholderTextColor="#9CA3AF"
+                      value={customLocation.latitude}
+                      onChangeText={latitude => setCustomLocation({ ...customLocation, latitude })}
+                      keyboardType="numbers-and-punctuation"
+                      textAlign="right"
+                    />
+                  </View>
+                  <View style={styles.cycleField}>
+                    <Text style={styles.cycleFieldLabel}>خط الطول</Text>
+                    <TextInput
+                      style={styles.textInput}
+                      placeholder={settings.prayer.longitude?.toString() || '39.83'}
+                      placeholderTextColor="#9CA3AF"
+                      value={customLocation.longitude}
+                      onChangeText={longitude => setCustomLocation({ ...customLocation, longitude })}
+                      keyboardType="numbers-and-punctuation"
+                      textAlign="right"
+                    />
+                  </View>
+                </View>
+                <TouchableOpacity style={styles.cycleStartButton} onPress={saveCustomLocation}>
+                  <Text style={styles.cycleStartButtonText}>💾 حفظ موقع مخصص</Text>
+                </TouchableOpacity>
+
+                <Text style={[styles.cycleFieldLabel, styles.fastingFirstRow]}>طريقة الحساب</Text>
+                <View style={styles.anchorChipsRow}>
+                  {(Object.keys(PRAYER_METHODS) as PrayerMethod[]).map(method => (
+                    <TouchableOpacity
+                      key={method}
+                      style={[styles.anchorChip, settings.prayer.method === method && styles.anchorChipActive]}
+                      onPress={() => updatePrayer({ method })}
+                    >
+                      <Text style={[
+                        styles.anchorChipText,
+                        settings.prayer.method === method && styles.anchorChipTextActive
+                      ]}>
+                        {PRAYER_METHODS[method].name}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+                <View style={[styles.settingsRow, styles.fastingFirstRow]}>
+                  <Text style={styles.settingsRowLabel}>🌤️ العصر على المذهب الحنفي</Text>
+                  <Switch
+                    value={settings.prayer.asrMethod === 'hanafi'}
+                    onValueChange={hanafi => updatePrayer({ asrMethod: hanafi ? 'hanafi' : 'standard' })}
+                  />
+                </View>
+
+                {getPrayerTimes(settings.prayer, new Date()) ? (
+                  <View style={styles.anchorChipsRow}>
+                    {(Object.keys(PRAYER_ANCHORS) as PrayerName[]).map(prayer => (
+                      <Text key={prayer} style={styles.stockAlertText}>
+                        {PRAYER_ANCHORS[prayer].icon} {PRAYER_ANCHORS[prayer].name.replace('صلاة ', '')}: {formatTime(getPrayerTimes(settings.prayer, new Date())![prayer])}
+                      </Text>
+                    ))}
                   </View>
+                ) : (
+                  <Text style={styles.stockAlertText}>
+                    اختر مدينة أو أدخل إحداثيات موقعك لحساب المواقيت على الجهاز دون اتصال
+                  </Text>
                 )}
               </View>
-            </View>
-            
-            {/* Enhanced Status Indicator */}
-            <View style={styles.statusIndicatorContainer}>
-              <LinearGradient
-                colors={['rgba(16, 185, 129, 0.2)', 'rgba(16, 185, 129, 0.1)'] as [string, string]}
-                style={styles.statusIndicator}
+
+              {/* Fasting Mode */}
+              <View style={styles.inputContainer}>
+                <Text style={styles.inputLabel}>🌙 وضع الصيام</Text>
+                <View style={styles.frequencyContainer}>
+                  {(Object.keys(FASTING_MODE_CONFIG) as FastingMode[]).map(mode => (
+                    <TouchableOpacity
+                      key={mode}
+                      style={styles.frequencyButtonContainer}
+                      onPress={() => updateFasting({ mode })}
+                    >
+                      <LinearGradient
+                        colors={settings.fasting.mode === mode ? ['#667EEA', '#764BA2'] as [string, string] : ['#F9FAFB', '#F3F4F6'] as [string, string]}
+                        style={styles.frequencyButton}
+                      >
+                        <Text style={styles.frequencyButtonIcon}>{FASTING_MODE_CONFIG[mode].icon}</Text>
+                        <Text style={[
+                          styles.frequencyButtonText,
+                          settings.fasting.mode === mode && styles.frequencyButtonTextActive
+                        ]}>
+                          {FASTING_MODE_CONFIG[mode].name}
+                        </Text>
+                      </LinearGradient>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+
+                {settings.fasting.mode === 'dateRange' && (
+                  <>
+                    <View style={[styles.settingsRow, styles.fastingFirstRow]}>
+                      <Text style={styles.settingsRowLabel}>📍 من</Text>
+                      <TouchableOpacity style={styles.routineTimeButton} onPress={() => setFastingPicker('startDate')}>
+                        <Text style={styles.routineTimeText}>
+                          {new Date(settings.fasting.startDate).toLocaleDateString('ar-EG', { day: 'numeric', month: 'long' })}
+                        </Text>
+                      </TouchableOpacity>
+                    </View>
+                    <View style={styles.settingsRow}>
+                      <Text style={styles.settingsRowLabel}>🏁 إلى</Text>
+                      <TouchableOpacity style={styles.routineTimeButton} onPress={() => setFastingPicker('endDate')}>
+                        <Text style={styles.routineTimeText}>
+                          {new Date(settings.fasting.endDate).toLocaleDateString('ar-EG', { day: 'numeric', month: 'long' })}
+                        </Text>
+                      </TouchableOpacity>
+                    </View>
+                  </>
+                )}
+
+                {settings.fasting.mode === 'hijri' && (
+                  <Text style={styles.stockAlertText}>
+                    اليوم {toHijri(new Date()).day} {HIJRI_MONTHS[toHijri(new Date()).month - 1]} {toHijri(new Date()).year} هـ (حساب تقريبي قد يختلف بيوم أو يومين)
+                  </Text>
+                )}
+
+                {settings.fasting.mode !== 'off' && (
+                  <>
+                    <View style={[styles.settingsRow, styles.fastingFirstRow]}>
+                      <Text style={styles.settingsRowLabel}>🌌 السحور</Text>
+                      <TouchableOpacity style={styles.routineTimeButton} onPress={() => setFastingPicker('suhoor')}>
+                        <Text style={styles.routineTimeText}>{formatTime(settings.fasting.suhoor)}</Text>
+                      </TouchableOpacity>
+                    </View>
+                    <View style={styles.settingsRow}>
+                      <Text style={styles.settingsRowLabel}>🌅 الإفطار</Text>
+                      <TouchableOpacity style={styles.routineTimeButton} onPress={() => setFastingPicker('iftar')}>
+                        <Text style={styles.routineTimeText}>{formatTime(settings.fasting.iftar)}</Text>
+                      </TouchableOpacity>
+                    </View>
+                    <View style={styles.settingsRow}>
+                      <Text style={styles.settingsRowLabel}>🔄 نقل المواعيد تلقائياً</Text>
+                      <Switch
+                        value={settings.fasting.autoRemap}
+                        onValueChange={autoRemap => updateFasting({ autoRemap })}
+                      />
+                    </View>
+                    <Text style={styles.stockAlertText}>
+                      {isFastingDay(settings.fasting, new Date())
+                        ? '🌙 وضع الصيام مفعل اليوم، وتعود المواعيد المعتادة بعد انتهائه'
+                        : 'وضع الصيام غير مفعل اليوم'}
+                    </Text>
+                    {medicines
+                      .filter(med => med.isActive && med.frequency !== 'asNeeded' && getFastingIssue(med, settings.fasting))
+                      .map(med => (
+                        <Text key={med.id} style={styles.fastingWarningText}>
+                          ⚠️ {med.name}: {getFastingIssue(med, settings.fasting)}
+                        </Text>
+                      ))}
+                  </>
+                )}
+
+                {fastingPicker && (
+                  <DateTimePicker
+                    value={fastingPicker === 'suhoor' || fastingPicker === 'iftar'
+                      ? getSlotDate(new Date(), settings.fasting[fastingPicker])
+                      : new Date(settings.fasting[fastingPicker])}
+                    mode={fastingPicker === 'suhoor' || fastingPicker === 'iftar' ? 'time' : 'date'}
+                    is24Hour={false}
+                    display="default"
+                    onChange={onFastingPickerChange}
+                  />
+                )}
+              </View>
+            </ScrollView>
+          </SafeAreaView>
+        </LinearGradient>
+      </Modal>
+
+      {/* Dose History Modal */}
+      <Modal visible={showHistory} animationType="slide" presentationStyle="pageSheet">
+        <LinearGradient
+          colors={['#F8FAFC', '#FFFFFF'] as [string, string]}
+          style={styles.modalContainer}
+        >
+          <SafeAreaView style={styles.modalContainer}>
+            <LinearGradient
+              colors={['#667EEA', '#764BA2'] as [string, string]}
+              style={styles.modalHeader}
+            >
+              <View style={styles.modalHeaderContent}>
+                <View style={styles.modalTitleContainer}>
+                  <Text style={styles.modalTitle}>📜 سجل الجرعات</Text>
+                  <Text style={styles.modalSubtitle}>كل ما حدث عند كل تذكير</Text>
+                </View>
+                <TouchableOpacity
+                  onPress={() => setShowHistory(false)}
+                  style={styles.closeButton}
+                >
+                  <LinearGradient
+                    colors={['rgba(255, 255, 255, 0.25)', 'rgba(255, 255, 255, 0.15)'] as [string, string]}
+                    style={styles.closeButtonGradient}
+                  >
+                    <Text style={styles.closeButtonText}>✕</Text>
+                  </LinearGradient>
+                </TouchableOpacity>
+              </View>
+            </LinearGradient>
+
+            <View style={styles.filterBar}>
+              <ScrollView
+                horizontal
+                showsHorizontalScrollIndicator={false}
+                style={styles.categoryScrollView}
+                contentContainerStyle={styles.categoryScrollContainer}
               >
-                <RNAnimated.View style={[
-                  styles.statusDot,
-                  {
-                    transform: [{
-                      scale: pulseAnimation.interpolate({
-                        inputRange: [0.9, 1.2],
-                        outputRange: [0.8, 1.2],
-                        extrapolate: 'clamp'
-                      })
-                    }]
-                  }
-                ]} />
-                <Text style={styles.statusText}>التذكيرات نشطة الآن</Text>
-                <Text style={styles.statusSubtext}>المراقبة المستمرة 24/7</Text>
-              </LinearGradient>
+                {[['all', 'الكل'], ...getHistoryMedicines()].map(([id, name]) => (
+                  <TouchableOpacity
+                    key={id}
+                    onPress={() => setHistoryMedicineId(id)}
+                    style={styles.categoryFilterContainer}
+                  >
+                    <LinearGradient
+                      colors={historyMedicineId === id ? ['#667EEA', '#764BA2'] as [string, string] : ['#F3F4F6', '#E5E7EB'] as [string, string]}
+                      style={styles.categoryFilter}
+                    >
+                      <Text style={[
+                        styles.categoryFilterText,
+                        historyMedicineId === id && styles.categoryFilterTextActive
+                      ]}>
+                        {name}
+                      </Text>
+                    </LinearGradient>
+                  </TouchableOpacity>
+                ))}
+              </ScrollView>
             </View>
-          </View>
-        </RNAnimated.View>
-      </LinearGradient>
 
-      {/* Enhanced Full Screen Alarm Modal */}
-      <Modal
-        visible={showAlarmModal}
-        animationType="none"
-        transparent={false}
-        onRequestClose={() => {}}
-      >
+            <View style={styles.historyDayNav}>
+              <TouchableOpacity onPress={() => shiftHistoryDate(1)} style={styles.historyDayButton}>
+                <Text style={styles.historyDayButtonText}>▶</Text>
+              </TouchableOpacity>
+              <Text style={styles.historyDayText}>
+                {historyDate.toLocaleDateString('ar', { weekday: 'long', day: 'numeric', month: 'long' })}
+              </Text>
+              <TouchableOpacity onPress={() => shiftHistoryDate(-1)} style={styles.historyDayButton}>
+                <Text style={styles.historyDayButtonText}>◀</Text>
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView style={styles.formContainer}>
+              {getHistoryEvents().length === 0 ? (
+                <Text style={styles.historyEmptyText}>لا توجد أحداث مسجلة في هذا اليوم</Text>
+              ) : (
+                getHistoryEvents().map(event => {
+                  const actionConfig = INTAKE_ACTION_CONFIG[event.action];
+                  return (
+                    <View key={event.id} style={styles.historyEventItem}>
+                      <View style={styles.historyEventHeader}>
+                        <Text style={styles.missedDoseName}>💊 {event.medicineName}</Text>
+                        <Text style={[styles.historyEventAction, { color: actionConfig.color }]}>
+                          {actionConfig.icon} {actionConfig.name}
+                        </Text>
+                      </View>
+                      <Text style={styles.missedDoseInfo}>
+                        🕐 الموعد: {formatTime(event.slotKey.split('_')[1])}
+                      </Text>
+                      <Text style={styles.missedDoseInfo}>
+                        📍 وقت التسجيل: {new Date(event.actualAt).toLocaleString('ar')}
+                      </Text>
+                      {event.snoozeCount > 0 && (
+                        <Text style={styles.missedDoseInfo}>🔄 التأجيل: {event.snoozeCount} مرة</Text>
+                      )}
+                      {event.escalationStep !== undefined && (
+                        <Text style={styles.missedDoseInfo}>📢 مرحلة التصعيد: {event.escalationStep}</Text>
+                      )}
+                    </View>
+                  );
+                })
+              )}
+            </ScrollView>
+          </SafeAreaView>
+        </LinearGradient>
+      </Modal>
+
+      {/* Refill Modal */}
+      <Modal visible={!!restockingMedicine} animationType="slide" presentationStyle="pageSheet">
         <LinearGradient
-          colors={['#DC2626', '#B91C1C', '#991B1B'] as [string, string, string]}
-          style={styles.alarmContainer}
+          colors={['#F8FAFC', '#FFFFFF'] as [string, string]}
+          style={styles.modalContainer}
         >
-          <SafeAreaView style={styles.alarmContainer}>
-            <StatusBar barStyle="light-content" backgroundColor="#DC2626" />
-            
-            {/* Animated Background Pattern */}
-            <View style={styles.alarmBackgroundPattern}>
-              {[...Array(20)].map((_, i) => (
-                <RNAnimated.View
-                  key={i}
-                  style={[
-                    styles.patternDot,
-                    {
-                      left: (i % 5) * 20,
-                      top: Math.floor(i / 5) * 25,
-                      transform: [{
-                        scale: pulseAnimation.interpolate({
-                          inputRange: [0.9, 1.2],
-                          outputRange: [0.3, 0.8],
-                          extrapolate: 'clamp'
-                        })
-                      }]
-                    }
-                  ]}
-                />
-              ))}
-            </View>
-            
-            <RNAnimated.View style={[
-              styles.alarmContent, 
-              { 
-                transform: [
-                  { scale: alarmScaleAnimation },
-                  { scale: pulseAnimation }
-                ] 
-              }
-            ]}>
-              {/* Enhanced Alarm Icon */}
-              <View style={styles.alarmIconContainer}>
-                <LinearGradient
-                  colors={['rgba(255, 255, 255, 0.3)', 'rgba(255, 255, 255, 0.1)'] as [string, string]}
-                  style={styles.alarmIconOuter}
+          <SafeAreaView style={styles.modalContainer}>
+            <LinearGradient
+              colors={['#667EEA', '#764BA2'] as [string, string]}
+              style={styles.modalHeader}
+            >
+              <View style={styles.modalHeaderContent}>
+                <View style={styles.modalTitleContainer}>
+                  <Text style={styles.modalTitle}>📦 إعادة التعبئة</Text>
+                  <Text style={styles.modalSubtitle}>{restockingMedicine?.name}</Text>
+                </View>
+                <TouchableOpacity
+                  onPress={() => setRestockMedicineId(null)}
+                  style={styles.closeButton}
                 >
-                  <LinearGradient
-                    colors={['rgba(255, 255, 255, 0.4)', 'rgba(255, 255, 255, 0.2)'] as [string, string]}
-                    style={styles.alarmIconInner}
-                  >
-                    <Text style={styles.alarmIconText}>🚨</Text>
-                    <View style={styles.alarmIconRing} />
-                  </LinearGradient>
-                </LinearGradient>
-              </View>
-              
-              <Text style={styles.alarmTitle}>حان وقت الدواء!</Text>
-              <Text style={styles.alarmSubtitle}>لا تنسى العناية بصحتك</Text>
-              
-              {activeAlarm && (
-                <View style={styles.alarmDetails}>
                   <LinearGradient
                     colors={['rgba(255, 255, 255, 0.25)', 'rgba(255, 255, 255, 0.15)'] as [string, string]}
-                    style={styles.medicineNameCard}
+                    style={styles.closeButtonGradient}
                   >
-                    <Text style={styles.alarmMedicineName}>💊 {activeAlarm.medicineName}</Text>
+                    <Text style={styles.closeButtonText}>✕</Text>
                   </LinearGradient>
-                  
-                  <View style={styles.alarmInfoGrid}>
-                    <View style={styles.alarmInfoItem}>
-                      <Text style={styles.alarmInfoIcon}>💉</Text>
-                      <Text style={styles.alarmDosage}>{activeAlarm.dosage}</Text>
+                </TouchableOpacity>
+              </View>
+            </LinearGradient>
+
+            {restockingMedicine && (
+              <ScrollView style={styles.formContainer} keyboardShouldPersistTaps="handled">
+                <View style={styles.inputContainer}>
+                  <Text style={styles.inputLabel}>
+                    الكمية الحالية: {formatStock(restockingMedicine, getTotalStock(restockingMedicine) ?? 0)}
+                  </Text>
+                  {restockingMedicine.packSize ? (
+                    <View style={styles.alertModeRow}>
+                      {PACK_COUNT_OPTIONS.map(count => {
+                        const quantity = String(count * (restockingMedicine.packSize || 0));
+                        return (
+                          <TouchableOpacity
+                            key={count}
+                            style={[styles.anchorChip, restockForm.quantity === quantity && styles.anchorChipActive]}
+                            onPress={() => setRestockForm({...restockForm, quantity})}
+                          >
+                            <Text style={[styles.anchorChipText, restockForm.quantity === quantity && styles.anchorChipTextActive]}>
+                              {count === 1 ? 'عبوة' : `${count} عبوات`} ({quantity})
+                            </Text>
+                          </TouchableOpacity>
+                        );
+                      })}
                     </View>
-                    
-                    <View style={styles.alarmInfoItem}>
-                      <Text style={styles.alarmInfoIcon}>🕐</Text>
-                      <Text style={styles.alarmTime}>{formatTime(activeAlarm.time)}</Text>
+                  ) : (
+                    <Text style={styles.stockAlertText}>أدخل الكمية يدوياً، أو حدد حجم العبوة عند إضافة الدواء لإضافة عبوة كاملة بلمسة</Text>
+                  )}
+
+                  <View style={[styles.stockContainer, styles.fastingFirstRow]}>
+                    <View style={styles.stockInputContainer}>
+                      <Text style={styles.stockInputLabel}>كمية مخصصة ({DOSE_FORMS[restockingMedicine.dose?.form || 'tablet'].unit})</Text>
+                      <View style={styles.stockInputWrapper}>
+                        <TextInput
+                          style={styles.stockInput}
+                          placeholder="30"
+                          placeholderTextColor="#9CA3AF"
+                          value={restockForm.quantity}
+                          onChangeText={(text) => setRestockForm({...restockForm, quantity: text})}
+                          keyboardType="numeric"
+                          textAlign="center"
+                        />
+                      </View>
                     </View>
+
+                    {(restockingMedicine.batches || restockingMedicine.stock === undefined) && (
+                      <View style={styles.stockInputContainer}>
+                        <Text style={styles.stockInputLabel}>تاريخ الانتهاء</Text>
+                        <TouchableOpacity style={styles.cycleStartButton} onPress={() => setShowRestockExpiryPicker(true)}>
+                          <Text style={styles.cycleStartButtonText}>
+                            {restockForm.expiryDate
+                              ? restockForm.expiryDate.toLocaleDateString('ar-EG', { month: 'short', year: 'numeric' })
+                              : 'اختر التاريخ'}
+                          </Text>
+                        </TouchableOpacity>
+                      </View>
+                    )}
                   </View>
-                  
-                  {activeAlarm.snoozeCount > 0 && (
-                    <LinearGradient
-                      colors={['rgba(0, 0, 0, 0.4)', 'rgba(0, 0, 0, 0.2)'] as [string, string]}
-                      style={styles.snoozeCountContainer}
-                    >
-                      <Text style={styles.snoozeCount}>
-                        🔄 تم التأجيل {activeAlarm.snoozeCount} مرة
-                      </Text>
-                    </LinearGradient>
+                  {showRestockExpiryPicker && (
+                    <DateTimePicker
+                      value={restockForm.expiryDate || new Date()}
+                      mode="date"
+                      display="default"
+                      onChange={onRestockExpiryChange}
+                    />
+                  )}
+
+                  {(restockingMedicine.batches || restockingMedicine.stock === undefined) && (
+                    <View style={[styles.inputWrapper, styles.fastingFirstRow]}>
+                      <TextInput
+                        style={styles.textInput}
+                        placeholder="رقم التشغيلة (اختياري)"
+                        placeholderTextColor="#9CA3AF"
+                        value={restockForm.lotNumber}
+                        onChangeText={(text) => setRestockForm({...restockForm, lotNumber: text})}
+                        textAlign="right"
+                      />
+                    </View>
                   )}
+
+                  <View style={[styles.cycleFieldsRow, styles.fastingFirstRow]}>
+                    <View style={[styles.inputWrapper, styles.batchLotInput]}>
+                      <TextInput
+                        style={styles.textInput}
+                        placeholder="الصيدلية (اختياري)"
+                        placeholderTextColor="#9CA3AF"
+                        value={restockForm.pharmacy}
+                        onChangeText={(text) => setRestockForm({...restockForm, pharmacy: text})}
+                        textAlign="right"
+                      />
+                    </View>
+                    <View style={[styles.inputWrapper, styles.batchLotInput]}>
+                      <TextInput
+                        style={styles.textInput}
+                        placeholder="السعر (اختياري)"
+                        placeholderTextColor="#9CA3AF"
+                        value={restockForm.price}
+                        onChangeText={(text) => setRestockForm({...restockForm, price: text})}
+                        keyboardType="numeric"
+                        textAlign="right"
+                      />
+                    </View>
+                  </View>
                 </View>
-              )}
-              
-              <View style={styles.alarmButtons}>
+
                 <TouchableOpacity
-                  style={styles.takenAlarmButton}
-                  onPress={markAsTakenFromAlarm}
+                  onPress={saveRestock}
+                  style={styles.submitButtonContainer}
                 >
                   <LinearGradient
                     colors={['#10B981', '#059669'] as [string, string]}
-                    style={styles.alarmButtonGradient}
+                    style={styles.submitButton}
                   >
-                    <Text style={styles.takenAlarmButtonText}>✅ تم تناول الدواء</Text>
+                    <Text style={styles.submitButtonIcon}>📦</Text>
+                    <Text style={styles.submitButtonText}>إضافة إلى المخزون</Text>
                   </LinearGradient>
                 </TouchableOpacity>
-                
-                <View style={styles.alarmSecondaryButtons}>
-                  <TouchableOpacity
-                    style={styles.snoozeAlarmButton}
-                    onPress={snoozeAlarm}
-                  >
-                    <LinearGradient
-                      colors={['rgba(255, 255, 255, 0.25)', 'rgba(255, 255, 255, 0.15)'] as [string, string]}
-                      style={styles.alarmButtonGradient}
-                    >
-                      <Text style={styles.snoozeAlarmButtonText}>⏰ تأجيل 5 دقائق</Text>
-                    </LinearGradient>
-                  </TouchableOpacity>
-                  
-                  <TouchableOpacity
-                    style={styles.stopAlarmButton}
-                    onPress={stopAlarm}
-                  >
-                    <LinearGradient
-                      colors={['rgba(255, 255, 255, 0.25)', 'rgba(255, 255, 255, 0.15)'] as [string, string]}
-                      style={styles.alarmButtonGradient}
-                    >
-                      <Text style={styles.stopAlarmButtonText}>🔕 إيقاف</Text>
-                    </LinearGradient>
-                  </TouchableOpacity>
+
+                {/* Stock over the last two weeks, to compare against a physical count */}
+                <View style={styles.inputContainer}>
+                  <Text style={styles.inputLabel}>📈 المخزون خلال آخر {STOCK_HISTORY_DAYS} يوماً</Text>
+                  {(() => {
+                    const history = getStockHistory(restockingMedicine, restocks, intakeEvents, new Date());
+                    const maxLevel = Math.max(1, ...history.map(entry => entry.level));
+                    return history.map(entry => (
+                      <View key={entry.day.toDateString()} style={styles.stockHistoryRow}>
+                        <Text style={styles.stockHistoryDay}>
+                          {entry.day.toLocaleDateString('ar-EG', { day: 'numeric', month: 'short' })}
+                        </Text>
+                        <View style={styles.stockHistoryTrack}>
+                          <View style={[
+                            styles.stockHistoryBar,
+                            { width: `${Math.max(0, entry.level) / maxLevel * 100}%` },
+                            entry.level < 0 && styles.stockHistoryBarInvalid,
+                          ]} />
+                        </View>
+                        <Text style={[styles.stockHistoryLevel, entry.level < 0 && styles.expiredStockText]}>
+                          {formatAmount(entry.level)}
+                          {entry.added > 0 ? ` +${formatAmount(entry.added)}` : ''}
+                          {entry.used > 0 ? ` -${formatAmount(entry.used)}` : ''}
+                        </Text>
+                      </View>
+                    ));
+                  })()}
+                  <Text style={styles.stockAlertText}>
+                    الكمية في نهاية كل يوم محسوبة من الجرعات المأخوذة وإعادة التعبئة، قارنها بالعدد الفعلي
+                  </Text>
                 </View>
-              </View>
-            </RNAnimated.View>
+
+                <View style={styles.inputContainer}>
+                  <Text style={styles.inputLabel}>🧾 سجل إعادة التعبئة</Text>
+                  {restocks.filter(entry => entry.medicineId === restockingMedicine.id).length === 0 ? (
+                    <Text style={styles.historyEmptyText}>لم تتم إعادة التعبئة بعد</Text>
+                  ) : (
+                    restocks
+                      .filter(entry => entry.medicineId === restockingMedicine.id)
+                      .slice()
+                      .reverse()
+                      .map(entry => (
+                        <View key={entry.id} style={styles.historyEventItem}>
+                          <View style={styles.historyEventHeader}>
+                            <Text style={styles.missedDoseName}>
+                              {entry.quantity > 0 ? '📦' : '🗑️'} {entry.quantity > 0 ? '+' : ''}{formatStock(restockingMedicine, entry.quantity)}
+                            </Text>
+                            <Text style={styles.missedDoseInfo}>{new Date(entry.date).toLocaleDateString('ar')}</Text>
+                          </View>
+                          {entry.quantity < 0 && (
+                            <Text style={styles.missedDoseInfo}>تم التخلص من كمية منتهية الصلاحية</Text>
+                          )}
+                          {entry.pharmacy && (
+                            <Text style={styles.missedDoseInfo}>🏥 {entry.pharmacy}</Text>
+                          )}
+                          {entry.price !== undefined && (
+                            <Text style={styles.missedDoseInfo}>💰 {formatAmount(entry.price)}</Text>
+                          )}
+                        </View>
+                      ))
+                  )}
+                </View>
+              </ScrollView>
+            )}
           </SafeAreaView>
         </LinearGradient>
       </Modal>
@@ -1293,6 +5423,36 @@ const MedicineReminderApp: React.FC = () => {
           </LinearGradient>
         </TouchableOpacity>
 
+        {/* Dose History and Settings Buttons */}
+        <View style={styles.quickActionsRow}>
+          <TouchableOpacity
+            onPress={() => {
+              setHistoryDate(new Date());
+              setShowHistory(true);
+            }}
+            style={styles.historyButtonContainer}
+          >
+            <LinearGradient
+              colors={['#667EEA', '#764BA2'] as [string, string]}
+              style={styles.historyButton}
+            >
+              <Text style={styles.historyButtonText}>📜 سجل الجرعات</Text>
+            </LinearGradient>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            onPress={() => setShowSettings(true)}
+            style={styles.historyButtonContainer}
+          >
+            <LinearGradient
+              colors={['#64748B', '#475569'] as [string, string]}
+              style={styles.historyButton}
+            >
+              <Text style={styles.historyButtonText}>⚙️ الإعدادات</Text>
+            </LinearGradient>
+          </TouchableOpacity>
+        </View>
+
         {/* Enhanced Add Medicine Modal */}
         <Modal visible={showAddForm} animationType="slide" presentationStyle="pageSheet">
           <LinearGradient
@@ -1362,72 +5522,386 @@ const MedicineReminderApp: React.FC = () => {
                         onPress={() => setNewMedicine({...newMedicine, priority: key as any})}
                         style={styles.priorityOptionContainer}
                       >
-                        <LinearGradient
-                          colors={newMedicine.priority === key 
-                            ? [priority.color, priority.color + '99'] as [string, string]
-                            : ['#F9FAFB', '#F3F4F6'] as [string, string]
-                          }
-                          style={styles.priorityOption}
-                        >
-                          <Text style={styles.priorityOptionIcon}>{priority.icon}</Text>
-                          <Text style={[
-                            styles.priorityOptionText,
-                            newMedicine.priority === key && styles.priorityOptionTextActive
-                          ]}>
-                            {priority.name}
-                          </Text>
-                        </LinearGradient>
+                        <LinearGradient
+                          colors={newMedicine.priority === key 
+                            ? [priority.color, priority.color + '99'] as [string, string]
+                            : ['#F9FAFB', '#F3F4F6'] as [string, string]
+                          }
+                          style={styles.priorityOption}
+                        >
+                          <Text style={styles.priorityOptionIcon}>{priority.icon}</Text>
+                          <Text style={[
+                            styles.priorityOptionText,
+                            newMedicine.priority === key && styles.priorityOptionTextActive
+                          ]}>
+                            {priority.name}
+                          </Text>
+                        </LinearGradient>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                </View>
+
+                {/* Pre-reminder */}
+                {newMedicine.frequency !== 'asNeeded' && (
+                  <View style={styles.inputContainer}>
+                    <Text style={styles.inputLabel}>🔔 تذكير مسبق قبل الجرعة</Text>
+                    <View style={styles.anchorChipsRow}>
+                      {PRE_REMINDER_OPTIONS.map(minutes => (
+                        <TouchableOpacity
+                          key={minutes}
+                          style={[styles.anchorChip, newMedicine.preReminderMinutes === minutes && styles.anchorChipActive]}
+                          onPress={() => setNewMedicine({...newMedicine, preReminderMinutes: minutes})}
+                        >
+                          <Text style={[
+                            styles.anchorChipText,
+                            newMedicine.preReminderMinutes === minutes && styles.anchorChipTextActive
+                          ]}>
+                            {minutes === 0 ? 'بدون' : `قبل ${minutes} د`}
+                          </Text>
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+                    {newMedicine.preReminderMinutes > 0 && (
+                      <View style={[styles.inputWrapper, styles.fastingFirstRow]}>
+                        <TextInput
+                          style={styles.textInput}
+                          placeholder="مثال: تناول الطعام بعد الجرعة، أخرجه من الثلاجة..."
+                          placeholderTextColor="#9CA3AF"
+                          value={newMedicine.preReminderNote}
+                          onChangeText={(text) => setNewMedicine({...newMedicine, preReminderNote: text})}
+                          textAlign="right"
+                        />
+                      </View>
+                    )}
+                    <Text style={styles.stockAlertText}>
+                      إشعار هادئ يسبق الجرعة، ويبقى المنبه الكامل في موعده
+                    </Text>
+                  </View>
+                )}
+
+                {/* Alarm Sound */}
+                <View style={styles.inputContainer}>
+                  <Text style={styles.inputLabel}>🎵 نغمة المنبه</Text>
+                  <View style={styles.anchorChipsRow}>
+                    <TouchableOpacity
+                      style={[styles.anchorChip, !newMedicine.sound && styles.anchorChipActive]}
+                      onPress={() => setNewMedicine({...newMedicine, sound: null})}
+                    >
+                      <Text style={[styles.anchorChipText, !newMedicine.sound && styles.anchorChipTextActive]}>
+                        {MEDICINE_CATEGORIES[newMedicine.category].icon} نغمة الفئة
+                      </Text>
+                    </TouchableOpacity>
+                    {(Object.keys(ALARM_TONES) as AlarmToneId[]).map(tone => {
+                      const isSelected = newMedicine.sound?.type === 'tone' && newMedicine.sound.tone === tone;
+                      return (
+                        <TouchableOpacity
+                          key={tone}
+                          style={[styles.anchorChip, isSelected && styles.anchorChipActive]}
+                          onPress={() => setNewMedicine({...newMedicine, sound: { type: 'tone', tone }})}
+                        >
+                          <Text style={[styles.anchorChipText, isSelected && styles.anchorChipTextActive]}>
+                            {getAlarmSoundLabel({ type: 'tone', tone })}
+                          </Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                    <TouchableOpacity
+                      style={[styles.anchorChip, newMedicine.sound?.type === 'file' && styles.anchorChipActive]}
+                      onPress={() => chooseSoundFile(sound => setNewMedicine(prev => ({...prev, sound})))}
+                    >
+                      <Text
+                        style={[styles.anchorChipText, newMedicine.sound?.type === 'file' && styles.anchorChipTextActive]}
+                        numberOfLines={1}
+                      >
+                        {newMedicine.sound?.type === 'file' ? getAlarmSoundLabel(newMedicine.sound) : '📁 ملف من الجهاز'}
+                      </Text>
+                    </TouchableOpacity>
+                  </View>
+                  <TouchableOpacity
+                    style={styles.soundPreviewButton}
+                    onPress={() => previewAlarmSound(getAlarmSound(newMedicine, settings.sounds))}
+                  >
+                    <Text style={styles.soundPreviewText}>▶️ استماع ({SOUND_PREVIEW_SECONDS} ثوانٍ)</Text>
+                  </TouchableOpacity>
+                  {newMedicine.sound?.type === 'file' && (
+                    <Text style={styles.stockAlertText}>
+                      الملف يرن داخل التطبيق، وعند إغلاقه يرن الإشعار بنغمة الفئة
+                    </Text>
+                  )}
+                </View>
+
+                {/* Enhanced Input Fields */}
+                <View style={styles.inputContainer}>
+                  <Text style={styles.inputLabel}>
+                    {MEDICINE_CATEGORIES[newMedicine.category].icon} اسم الدواء
+                  </Text>
+                  <View style={styles.inputWrapper}>
+                    <TextInput
+                      style={[styles.textInput, validationErrors.name && styles.errorInput]}
+                      placeholder="مثال: أسبرين، باراسيتامول..."
+                      placeholderTextColor="#9CA3AF"
+                      value={newMedicine.name}
+                      onChangeText={handleNameChange}
+                      textAlign="right"
+                      autoCapitalize="words"
+                    />
+                    {validationErrors.name && (
+                      <View style={styles.errorContainer}>
+                        <Text style={styles.errorIcon}>⚠️</Text>
+                        <Text style={styles.errorText}>{validationErrors.name}</Text>
+                      </View>
+                    )}
+                  </View>
+                </View>
+
+                {/* Taper Plan Toggle */}
+                <View style={styles.inputContainer}>
+                  <View style={styles.taperToggleRow}>
+                    <Text style={styles.inputLabel}>📉 جرعة متدرجة (تخفيض أو زيادة)</Text>
+                    <Switch
+                      value={newMedicine.taperEnabled}
+                      onValueChange={value => {
+                        setNewMedicine({...newMedicine, taperEnabled: value});
+                        setValidationErrors({...validationErrors, taper: undefined, dosage: undefined});
+                      }}
+                    />
+                  </View>
+
+                  {newMedicine.taperEnabled && (
+                    <>
+                      {newMedicine.taperSteps.map((step, index) => (
+                        <View key={index} style={styles.cycleFieldsRow}>
+                          <View style={[styles.cycleField, styles.taperDosageField]}>
+                            <Text style={styles.cycleFieldLabel}>المرحلة {index + 1}: الجرعة</Text>
+                            <TextInput
+                              style={[styles.textInput, validationErrors.taper && styles.errorInput]}
+                              placeholder="مثال: 40 ملغ"
+                              placeholderTextColor="#9CA3AF"
+                              value={step.dosage}
+                              onChangeText={text => updateTaperStep(index, 'dosage', text)}
+                              textAlign="right"
+                            />
+                          </View>
+                          <View style={styles.cycleField}>
+                            <Text style={styles.cycleFieldLabel}>لمدة (أيام)</Text>
+                            <TextInput
+                              style={[styles.textInput, validationErrors.taper && styles.errorInput]}
+                              placeholder="3"
+                              placeholderTextColor="#9CA3AF"
+                              value={step.days}
+                              onChangeText={text => updateTaperStep(index, 'days', text)}
+                              keyboardType="numeric"
+                              textAlign="right"
+                            />
+                          </View>
+                          {newMedicine.taperSteps.length > 1 && (
+                            <TouchableOpacity
+                              onPress={() => removeTaperStep(index)}
+                              style={[styles.removeTimeButton, styles.taperRemoveButton]}
+                            >
+                              <LinearGradient
+                                colors={['#FEF2F2', '#FEE2E2'] as [string, string]}
+                                style={styles.removeTimeButtonGradient}
+                              >
+                                <Text style={styles.removeTimeButtonText}>🗑️</Text>
+                              </LinearGradient>
+                            </TouchableOpacity>
+                          )}
+                        </View>
+                      ))}
+
+                      <TouchableOpacity onPress={addTaperStep} style={styles.cycleStartButton}>
+                        <Text style={styles.cycleStartButtonText}>➕ إضافة مرحلة</Text>
+                      </TouchableOpacity>
+                      <Text style={styles.stockAlertText}>
+                        تبدأ المرحلة الأولى اليوم، وتنتهي الخطة تلقائياً بعد آخر مرحلة
+                      </Text>
+
+                      {validationErrors.taper && (
+                        <View style={styles.errorContainer}>
+                          <Text style={styles.errorIcon}>⚠️</Text>
+                          <Text style={styles.errorText}>{validationErrors.taper}</Text>
+                        </View>
+                      )}
+                    </>
+                  )}
+                </View>
+
+                {/* Dose Amount */}
+                <View style={styles.inputContainer}>
+                  <Text style={styles.inputLabel}>💊 شكل الدواء ومقدار الجرعة</Text>
+                  <View style={styles.anchorChipsRow}>
+                    {(Object.keys(DOSE_FORMS) as DoseForm[]).map(form => (
+                      <TouchableOpacity
+                        key={form}
+                        style={[styles.anchorChip, newMedicine.doseForm === form && styles.anchorChipActive]}
+                        onPress={() => setNewMedicine({
+                          ...newMedicine,
+                          doseForm: form,
+                          doseAmount: Math.max(DOSE_FORMS[form].step, Math.round(newMedicine.doseAmount / DOSE_FORMS[form].step) * DOSE_FORMS[form].step)
+                        })}
+                      >
+                        <Text style={[styles.anchorChipText, newMedicine.doseForm === form && styles.anchorChipTextActive]}>
+                          {DOSE_FORMS[form].icon} {DOSE_FORMS[form].name}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+
+                  {newMedicine.taperEnabled ? (
+                    <Text style={styles.stockAlertText}>
+                      يُقرأ مقدار كل مرحلة من أول رقم في جرعتها، بوحدة {DOSE_FORMS[newMedicine.doseForm].unit}
+                    </Text>
+                  ) : (
+                    <View style={[styles.settingsRow, styles.fastingFirstRow]}>
+                      <Text style={styles.settingsRowLabel}>المقدار في كل جرعة</Text>
+                      <View style={styles.stepper}>
+                        <TouchableOpacity
+                          style={styles.stepperButton}
+                          onPress={() => changeDoseAmount(-1)}
+                        >
+                          <Text style={styles.stepperButtonText}>−</Text>
+                        </TouchableOpacity>
+                        <Text style={styles.stepperValue}>{formatDose({ amount: newMedicine.doseAmount, form: newMedicine.doseForm })}</Text>
+                        <TouchableOpacity
+                          style={styles.stepperButton}
+                          onPress={() => changeDoseAmount(1)}
+                        >
+                          <Text style={styles.stepperButtonText}>+</Text>
+                        </TouchableOpacity>
+                      </View>
+                    </View>
+                  )}
+                  {validationErrors.dosage && (
+                    <View style={styles.errorContainer}>
+                      <Text style={styles.errorIcon}>⚠️</Text>
+                      <Text style={styles.errorText}>{validationErrors.dosage}</Text>
+                    </View>
+                  )}
+                </View>
+
+                {/* Device */}
+                <View style={styles.inputContainer}>
+                  <Text style={styles.inputLabel}>🫁 جهاز بسعة محددة (اختياري)</Text>
+                  <View style={styles.anchorChipsRow}>
+                    <TouchableOpacity
+                      style={[styles.anchorChip, !newMedicine.deviceKind && styles.anchorChipActive]}
+                      onPress={() => selectDeviceKind(null)}
+                    >
+                      <Text style={[styles.anchorChipText, !newMedicine.deviceKind && styles.anchorChipTextActive]}>بدون</Text>
+                    </TouchableOpacity>
+                    {(Object.keys(DEVICE_KINDS) as DeviceKind[]).map(kind => (
+                      <TouchableOpacity
+                        key={kind}
+                        style={[styles.anchorChip, newMedicine.deviceKind === kind && styles.anchorChipActive]}
+                        onPress={() => selectDeviceKind(kind)}
+                      >
+                        <Text style={[styles.anchorChipText, newMedicine.deviceKind === kind && styles.anchorChipTextActive]}>
+                          {DEVICE_KINDS[kind].icon} {DEVICE_KINDS[kind].name}
+                        </Text>
                       </TouchableOpacity>
                     ))}
                   </View>
-                </View>
 
-                {/* Enhanced Input Fields */}
-                <View style={styles.inputContainer}>
-                  <Text style={styles.inputLabel}>
-                    {MEDICINE_CATEGORIES[newMedicine.category].icon} اسم الدواء
-                  </Text>
-                  <View style={styles.inputWrapper}>
-                    <TextInput
-                      style={[styles.textInput, validationErrors.name && styles.errorInput]}
-                      placeholder="مثال: أسبرين، باراسيتامول..."
-                      placeholderTextColor="#9CA3AF"
-                      value={newMedicine.name}
-                      onChangeText={handleNameChange}
-                      textAlign="right"
-                      autoCapitalize="words"
-                    />
-                    {validationErrors.name && (
-                      <View style={styles.errorContainer}>
-                        <Text style={styles.errorIcon}>⚠️</Text>
-                        <Text style={styles.errorText}>{validationErrors.name}</Text>
+                  {newMedicine.deviceKind && (
+                    <View style={[styles.stockContainer, styles.fastingFirstRow]}>
+                      <View style={styles.stockInputContainer}>
+                        <Text style={styles.stockInputLabel}>السعة ({DOSE_FORMS[newMedicine.doseForm].unit})</Text>
+                        <View style={styles.stockInputWrapper}>
+                          <TextInput
+                            style={[styles.stockInput, validationErrors.device && styles.errorInput]}
+                            placeholder={String(DEVICE_KINDS[newMedicine.deviceKind].capacity)}
+                            placeholderTextColor="#9CA3AF"
+                            value={newMedicine.deviceCapacity}
+                            onChangeText={(text) => setNewMedicine({...newMedicine, deviceCapacity: text})}
+                            keyboardType="numeric"
+                            textAlign="center"
+                          />
+                        </View>
                       </View>
-                    )}
-                  </View>
-                </View>
 
-                <View style={styles.inputContainer}>
-                  <Text style={styles.inputLabel}>💊 الجرعة والتعليمات</Text>
-                  <View style={styles.inputWrapper}>
-                    <TextInput
-                      style={[styles.textInput, styles.multilineInput, validationErrors.dosage && styles.errorInput]}
-                      placeholder="مثال: حبة واحدة قبل الأكل بنصف ساعة"
-                      placeholderTextColor="#9CA3AF"
-                      value={newMedicine.dosage}
-                      onChangeText={handleDosageChange}
-                      textAlign="right"
-                      multiline
-                      numberOfLines={3}
-                    />
-                    {validationErrors.dosage && (
-                      <View style={styles.errorContainer}>
-                        <Text style={styles.errorIcon}>⚠️</Text>
-                        <Text style={styles.errorText}>{validationErrors.dosage}</Text>
+                      <View style={styles.stockInputContainer}>
+                        <Text style={styles.stockInputLabel}>يُتلف بعد الفتح (يوم)</Text>
+                        <View style={styles.stockInputWrapper}>
+                          <TextInput
+                            style={styles.stockInput}
+                            placeholder="—"
+                            placeholderTextColor="#9CA3AF"
+                            value={newMedicine.deviceDiscardDays}
+                            onChangeText={(text) => setNewMedicine({...newMedicine, deviceDiscardDays: text})}
+                            keyboardType="numeric"
+                            textAlign="center"
+                          />
+                        </View>
                       </View>
-                    )}
-                  </View>
+
+                      <View style={styles.stockInputContainer}>
+                        <Text style={styles.stockInputLabel}>تنبيه عند</Text>
+                        <View style={styles.stockInputWrapper}>
+                          <TextInput
+                            style={styles.stockInput}
+                            placeholder={String(Math.round((Number(newMedicine.deviceCapacity) || 0) * DEVICE_LOW_FRACTION))}
+                            placeholderTextColor="#9CA3AF"
+                            value={newMedicine.deviceLowAlert}
+                            onChangeText={(text) => setNewMedicine({...newMedicine, deviceLowAlert: text})}
+                            keyboardType="numeric"
+                            textAlign="center"
+                          />
+                        </View>
+                      </View>
+                    </View>
+                  )}
+                  {newMedicine.deviceKind && (
+                    <>
+                      <TouchableOpacity
+                        style={styles.cycleStartButton}
+                        onPress={() => setShowDeviceOpenedPicker(true)}
+                      >
+                        <Text style={styles.cycleStartButtonText}>
+                          📅 تاريخ الفتح: {newMedicine.deviceOpenedAt.toLocaleDateString('ar-EG', { day: 'numeric', month: 'long', year: 'numeric' })}
+                        </Text>
+                      </TouchableOpacity>
+                      {showDeviceOpenedPicker && (
+                        <DateTimePicker
+                          value={newMedicine.deviceOpenedAt}
+                          mode="date"
+                          display="default"
+                          maximumDate={new Date()}
+                          onChange={onDeviceOpenedChange}
+                        />
+                      )}
+                      <Text style={styles.stockAlertText}>
+                        يُخصم مقدار كل جرعة من الجهاز، ويُعد موعد التخلص منه من تاريخ الفتح
+                      </Text>
+                    </>
+                  )}
+                  {validationErrors.device && (
+                    <View style={styles.errorContainer}>
+                      <Text style={styles.errorIcon}>⚠️</Text>
+                      <Text style={styles.errorText}>{validationErrors.device}</Text>
+                    </View>
+                  )}
                 </View>
 
+                {!newMedicine.taperEnabled && (
+                  <View style={styles.inputContainer}>
+                    <Text style={styles.inputLabel}>📋 التعليمات (اختياري)</Text>
+                    <View style={styles.inputWrapper}>
+                      <TextInput
+                        style={[styles.textInput, styles.multilineInput]}
+                        placeholder="مثال: قبل الأكل بنصف ساعة"
+                        placeholderTextColor="#9CA3AF"
+                        value={newMedicine.dosage}
+                        onChangeText={handleDosageChange}
+                        textAlign="right"
+                        multiline
+                        numberOfLines={3}
+                      />
+                    </View>
+                  </View>
+                )}
+
                 {/* Enhanced Notes Section */}
                 <View style={styles.inputContainer}>
                   <Text style={styles.inputLabel}>📝 ملاحظات إضافية (اختياري)</Text>
@@ -1446,72 +5920,175 @@ const MedicineReminderApp: React.FC = () => {
                 </View>
 
                 {/* Enhanced Multiple Times Section */}
-                <View style={styles.inputContainer}>
-                  <View style={styles.timesHeader}>
-                    <Text style={styles.inputLabel}>🕐 الأوقات</Text>
-                    <TouchableOpacity onPress={addTimeSlot} style={styles.addTimeButton}>
-                      <LinearGradient
-                        colors={['#10B981', '#059669'] as [string, string]}
-                        style={styles.addTimeButtonGradient}
-                      >
-                        <Text style={styles.addTimeButtonIcon}>➕</Text>
-                        <Text style={styles.addTimeButtonText}>إضافة وقت</Text>
-                      </LinearGradient>
-                    </TouchableOpacity>
-                  </View>
-                  
-                  {newMedicine.times.map((time, index) => (
-                    <View key={index} style={styles.timeSlotContainer}>
-                      <TouchableOpacity
-                        style={[styles.timeButton, validationErrors.time && styles.errorInput]}
-                        onPress={() => {
-                          setCurrentTimeIndex(index);
-                          setShowTimePicker(true);
-                        }}
-                      >
-                        <LinearGradient
-                          colors={time ? ['#EFF6FF', '#DBEAFE'] as [string, string] : ['#F9FAFB', '#F3F4F6'] as [string, string]}
-                          style={styles.timeButtonGradient}
-                        >
-                          <View style={styles.timeButtonContent}>
-                            <Text style={[styles.timeButtonText, !time && styles.placeholderText]}>
-                              {time ? formatTime(time) : `اختر الوقت ${index + 1}`}
-                            </Text>
-                            <Text style={styles.timeIcon}>🕐</Text>
-                          </View>
-                        </LinearGradient>
-                      </TouchableOpacity>
-                      
-                      {newMedicine.times.length > 1 && (
-                        <TouchableOpacity
-                          onPress={() => removeTimeSlot(index)}
-                          style={styles.removeTimeButton}
-                        >
+                {newMedicine.frequency !== 'asNeeded' && (
+                  <View style={styles.inputContainer}>
+                    <View style={styles.timesHeader}>
+                      <Text style={styles.inputLabel}>
+                        {newMedicine.frequency === 'interval' ? '🕐 وقت الجرعة الأولى' : '🕐 الأوقات'}
+                      </Text>
+                      {newMedicine.frequency !== 'interval' && (
+                        <TouchableOpacity onPress={addTimeSlot} style={styles.addTimeButton}>
                           <LinearGradient
-                            colors={['#FEF2F2', '#FEE2E2'] as [string, string]}
-                            style={styles.removeTimeButtonGradient}
+                            colors={['#10B981', '#059669'] as [string, string]}
+                            style={styles.addTimeButtonGradient}
                           >
-                            <Text style={styles.removeTimeButtonText}>🗑️</Text>
+                            <Text style={styles.addTimeButtonIcon}>➕</Text>
+                            <Text style={styles.addTimeButtonText}>إضافة وقت</Text>
                           </LinearGradient>
                         </TouchableOpacity>
                       )}
                     </View>
-                  ))}
                   
-                  {validationErrors.time && (
-                    <View style={styles.errorContainer}>
-                      <Text style={styles.errorIcon}>⚠️</Text>
-                      <Text style={styles.errorText}>{validationErrors.time}</Text>
-                    </View>
-                  )}
-                </View>
+                    {newMedicine.times.map((time, index) => (
+                      <React.Fragment key={index}>
+                        <View style={styles.timeSlotContainer}>
+                          <TouchableOpacity
+                            style={[styles.timeButton, validationErrors.time && styles.errorInput]}
+                            onPress={() => {
+                              setCurrentTimeIndex(index);
+                              setShowTimePicker(true);
+                            }}
+                          >
+                            <LinearGradient
+                              colors={time ? ['#EFF6FF', '#DBEAFE'] as [string, string] : ['#F9FAFB', '#F3F4F6'] as [string, string]}
+                              style={styles.timeButtonGradient}
+                            >
+                              <View style={styles.timeButtonContent}>
+                                <Text style={[styles.timeButtonText, !time && styles.placeholderText]}>
+                                  {time ? formatTime(time) : `اختر الوقت ${index + 1}`}
+                                </Text>
+                                <Text style={styles.timeIcon}>🕐</Text>
+                              </View>
+                            </LinearGradient>
+                          </TouchableOpacity>
+                      
+                          {newMedicine.times.length > 1 && (
+                            <TouchableOpacity
+                              onPress={() => removeTimeSlot(index)}
+                              style={styles.removeTimeButton}
+                            >
+                              <LinearGradient
+                                colors={['#FEF2F2', '#FEE2E2'] as [string, string]}
+                                style={styles.removeTimeButtonGradient}
+                              >
+                                <Text style={styles.removeTimeButtonText}>🗑️</Text>
+                              </LinearGradient>
+                            </TouchableOpacity>
+                          )}
+                        </View>
+
+                        {newMedicine.times.length > 1 && newMedicine.frequency !== 'interval' && !newMedicine.taperEnabled && (
+                          <View style={styles.settingsRow}>
+                            <Text style={styles.settingsRowLabel}>💊 مقدار هذه الجرعة</Text>
+                            <View style={styles.stepper}>
+                              <TouchableOpacity style={styles.stepperButton} onPress={() => changeSlotAmount(index, -1)}>
+                                <Text style={styles.stepperButtonText}>−</Text>
+                              </TouchableOpacity>
+                              <Text style={styles.stepperValue}>
+                                {formatDose({
+                                  amount: newMedicine.timeAmounts[index] ?? newMedicine.doseAmount,
+                                  form: newMedicine.doseForm
+                                })}
+                              </Text>
+                              <TouchableOpacity style={styles.stepperButton} onPress={() => changeSlotAmount(index, 1)}>
+                                <Text style={styles.stepperButtonText}>+</Text>
+                              </TouchableOpacity>
+                            </View>
+                          </View>
+                        )}
+
+                        {/* Routine-Relative Time */}
+                        <TouchableOpacity
+                          style={styles.anchorToggle}
+                          onPress={() => setTimeAnchor(index, newMedicine.timeAnchors[index]
+                            ? null
+                            : { anchor: 'breakfast', offsetMinutes: -30 })}
+                        >
+                          <Text style={styles.anchorToggleText}>
+                            {newMedicine.timeAnchors[index]
+                              ? `🍽️ ${describeAnchor(newMedicine.timeAnchors[index])} · إلغاء الربط`
+                              : '🍽️ ربط بموعد وجبة أو صلاة'}
+                          </Text>
+                        </TouchableOpacity>
+                        {newMedicine.timeAnchors[index] && (
+                          <View style={styles.anchorEditor}>
+                            <View style={styles.anchorChipsRow}>
+                              {(Object.keys(ROUTINE_ANCHORS) as RoutineAnchor[]).map(anchor => (
+                                <TouchableOpacity
+                                  key={anchor}
+                                  style={[
+                                    styles.anchorChip,
+                                    newMedicine.timeAnchors[index]?.anchor === anchor && styles.anchorChipActive
+                                  ]}
+                                  onPress={() => updateTimeAnchor(index, { anchor })}
+                                >
+                                  <Text style={[
+                                    styles.anchorChipText,
+                                    newMedicine.timeAnchors[index]?.anchor === anchor && styles.anchorChipTextActive
+                                  ]}>
+                                    {ROUTINE_ANCHORS[anchor].icon} {ROUTINE_ANCHORS[anchor].name}
+                                  </Text>
+                                </TouchableOpacity>
+                              ))}
+                            </View>
+                            <View style={styles.anchorChipsRow}>
+                              {(Object.keys(PRAYER_ANCHORS) as PrayerName[]).map(anchor => (
+                                <TouchableOpacity
+                                  key={anchor}
+                                  style={[
+                                    styles.anchorChip,
+                                    newMedicine.timeAnchors[index]?.anchor === anchor && styles.anchorChipActive
+                                  ]}
+                                  onPress={() => updateTimeAnchor(index, { anchor })}
+                                >
+                                  <Text style={[
+                                    styles.anchorChipText,
+                                    newMedicine.timeAnchors[index]?.anchor === anchor && styles.anchorChipTextActive
+                                  ]}>
+                                    {PRAYER_ANCHORS[anchor].icon} {PRAYER_ANCHORS[anchor].name.replace('صلاة ', '')}
+                                  </Text>
+                                </TouchableOpacity>
+                              ))}
+                            </View>
+                            <View style={styles.anchorChipsRow}>
+                              {ANCHOR_OFFSET_OPTIONS.map(offsetMinutes => (
+                                <TouchableOpacity
+                                  key={offsetMinutes}
+                                  style={[
+                                    styles.anchorChip,
+                                    newMedicine.timeAnchors[index]?.offsetMinutes === offsetMinutes && styles.anchorChipActive
+                                  ]}
+                                  onPress={() => updateTimeAnchor(index, { offsetMinutes })}
+                                >
+                                  <Text style={[
+                                    styles.anchorChipText,
+                                    newMedicine.timeAnchors[index]?.offsetMinutes === offsetMinutes && styles.anchorChipTextActive
+                                  ]}>
+                                    {getOffsetLabel(offsetMinutes)}
+                                  </Text>
+                                </TouchableOpacity>
+                              ))}
+                            </View>
+                          </View>
+                        )}
+                      </React.Fragment>
+                    ))}
+                  
+                    {validationErrors.time && (
+                      <View style={styles.errorContainer}>
+                        <Text style={styles.errorIcon}>⚠️</Text>
+                        <Text style={styles.errorText}>{validationErrors.time}</Text>
+                      </View>
+                    )}
+                  </View>
+                )}
 
                 {/* Enhanced Frequency Selection */}
                 <View style={styles.inputContainer}>
                   <Text style={styles.inputLabel}>📅 التكرار</Text>
-                  <View style={styles.frequencyContainer}>
+                  <View style={[styles.frequencyContainer, styles.frequencyGrid]}>
                     <TouchableOpacity
-                      style={styles.frequencyButtonContainer}
+                      style={[styles.frequencyButtonContainer, styles.frequencyGridItem]}
                       onPress={() => setNewMedicine({...newMedicine, frequency: 'daily'})}
                     >
                       <LinearGradient
@@ -1529,7 +6106,7 @@ const MedicineReminderApp: React.FC = () => {
                     </TouchableOpacity>
                     
                     <TouchableOpacity
-                      style={styles.frequencyButtonContainer}
+                      style={[styles.frequencyButtonContainer, styles.frequencyGridItem]}
                       onPress={() => setNewMedicine({...newMedicine, frequency: 'weekly'})}
                     >
                       <LinearGradient
@@ -1545,9 +6122,253 @@ const MedicineReminderApp: React.FC = () => {
                         </Text>
                       </LinearGradient>
                     </TouchableOpacity>
+
+                    <TouchableOpacity
+                      style={[styles.frequencyButtonContainer, styles.frequencyGridItem]}
+                      onPress={() => setNewMedicine({
+                        ...newMedicine,
+                        frequency: 'interval',
+                        times: newMedicine.times.slice(0, 1),
+                        timeAnchors: newMedicine.timeAnchors.slice(0, 1)
+                      })}
+                    >
+                      <LinearGradient
+                        colors={newMedicine.frequency === 'interval' ? ['#667EEA', '#764BA2'] as [string, string] : ['#F9FAFB', '#F3F4F6'] as [string, string]}
+                        style={styles.frequencyButton}
+                      >
+                        <Text style={styles.frequencyButtonIcon}>⏱️</Text>
+                        <Text style={[
+                          styles.frequencyButtonText,
+                          newMedicine.frequency === 'interval' && styles.frequencyButtonTextActive
+                        ]}>
+                          كل عدة ساعات
+                        </Text>
+                      </LinearGradient>
+                    </TouchableOpacity>
+
+                    <TouchableOpacity
+                      style={[styles.frequencyButtonContainer, styles.frequencyGridItem]}
+                      onPress={() => setNewMedicine({...newMedicine, frequency: 'cyclic'})}
+                    >
+                      <LinearGradient
+                        colors={newMedicine.frequency === 'cyclic' ? ['#667EEA', '#764BA2'] as [string, string] : ['#F9FAFB', '#F3F4F6'] as [string, string]}
+                        style={styles.frequencyButton}
+                      >
+                        <Text style={styles.frequencyButtonIcon}>🔄</Text>
+                        <Text style={[
+                          styles.frequencyButtonText,
+                          newMedicine.frequency === 'cyclic' && styles.frequencyButtonTextActive
+                        ]}>
+                          دوري
+                        </Text>
+                      </LinearGradient>
+                    </TouchableOpacity>
+
+                    <TouchableOpacity
+                      style={[styles.frequencyButtonContainer, styles.frequencyGridItem]}
+                      onPress={() => setNewMedicine({...newMedicine, frequency: 'asNeeded'})}
+                    >
+                      <LinearGradient
+                        colors={newMedicine.frequency === 'asNeeded' ? ['#667EEA', '#764BA2'] as [string, string] : ['#F9FAFB', '#F3F4F6'] as [string, string]}
+                        style={styles.frequencyButton}
+                      >
+                        <Text style={styles.frequencyButtonIcon}>🆘</Text>
+                        <Text style={[
+                          styles.frequencyButtonText,
+                          newMedicine.frequency === 'asNeeded' && styles.frequencyButtonTextActive
+                        ]}>
+                          عند الحاجة
+                        </Text>
+                      </LinearGradient>
+                    </TouchableOpacity>
                   </View>
                 </View>
 
+                {/* As-Needed Limits */}
+                {newMedicine.frequency === 'asNeeded' && (
+                  <View style={styles.inputContainer}>
+                    <Text style={styles.inputLabel}>🆘 حدود الاستخدام عند الحاجة</Text>
+                    <View style={styles.cycleFieldsRow}>
+                      <View style={styles.cycleField}>
+                        <Text style={styles.cycleFieldLabel}>أقل فاصل (ساعات)</Text>
+                        <TextInput
+                          style={[styles.textInput, validationErrors.asNeeded && styles.errorInput]}
+                          placeholder="4"
+                          placeholderTextColor="#9CA3AF"
+                          value={newMedicine.asNeededMinInterval}
+                          onChangeText={text => handleAsNeededChange('asNeededMinInterval', text)}
+                          keyboardType="numeric"
+                          textAlign="right"
+                        />
+                      </View>
+                      <View style={styles.cycleField}>
+                        <Text style={styles.cycleFieldLabel}>أقصى عدد خلال 24 ساعة</Text>
+                        <TextInput
+                          style={[styles.textInput, validationErrors.asNeeded && styles.errorInput]}
+                          placeholder="4"
+                          placeholderTextColor="#9CA3AF"
+                          value={newMedicine.asNeededMaxDaily}
+                          onChangeText={text => handleAsNeededChange('asNeededMaxDaily', text)}
+                          keyboardType="numeric"
+                          textAlign="right"
+                        />
+                      </View>
+                    </View>
+                    <Text style={styles.stockAlertText}>
+                      لا توجد تنبيهات لهذا الدواء، ويُسجَّل كل استخدام في سجل الجرعات
+                    </Text>
+                    {validationErrors.asNeeded && (
+                      <View style={styles.errorContainer}>
+                        <Text style={styles.errorIcon}>⚠️</Text>
+                        <Text style={styles.errorText}>{validationErrors.asNeeded}</Text>
+                      </View>
+                    )}
+                  </View>
+                )}
+
+                {/* Cycle Definition */}
+                {newMedicine.frequency === 'cyclic' && (
+                  <View style={styles.inputContainer}>
+                    <Text style={styles.inputLabel}>🔄 نوع الدورة</Text>
+                    <View style={styles.cycleTypeList}>
+                      {(Object.keys(CYCLE_TYPE_CONFIG) as CycleType[]).map(type => (
+                        <TouchableOpacity
+                          key={type}
+                          style={styles.frequencyButtonContainer}
+                          onPress={() => setNewMedicine({...newMedicine, cycleType: type})}
+                        >
+                          <LinearGradient
+                            colors={newMedicine.cycleType === type ? ['#667EEA', '#764BA2'] as [string, string] : ['#F9FAFB', '#F3F4F6'] as [string, string]}
+                            style={styles.cycleTypeButton}
+                          >
+                            <Text style={styles.frequencyButtonIcon}>{CYCLE_TYPE_CONFIG[type].icon}</Text>
+                            <Text style={[
+                              styles.frequencyButtonText,
+                              newMedicine.cycleType === type && styles.frequencyButtonTextActive
+                            ]}>
+                              {CYCLE_TYPE_CONFIG[type].name}
+                            </Text>
+                          </LinearGradient>
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+
+                    <View style={styles.cycleFieldsRow}>
+                      {newMedicine.cycleType === 'everyNDays' && (
+                        <View style={styles.cycleField}>
+                          <Text style={styles.cycleFieldLabel}>كل (أيام)</Text>
+                          <TextInput
+                            style={[styles.textInput, validationErrors.cycle && styles.errorInput]}
+                            placeholder="2"
+                            placeholderTextColor="#9CA3AF"
+                            value={newMedicine.cycleInterval}
+                            onChangeText={text => handleCycleFieldChange('cycleInterval', text)}
+                            keyboardType="numeric"
+                            textAlign="right"
+                          />
+                        </View>
+                      )}
+                      {newMedicine.cycleType === 'onOff' && (
+                        <>
+                          <View style={styles.cycleField}>
+                            <Text style={styles.cycleFieldLabel}>أيام التناول</Text>
+                            <TextInput
+                              style={[styles.textInput, validationErrors.cycle && styles.errorInput]}
+                              placeholder="21"
+                              placeholderTextColor="#9CA3AF"
+                              value={newMedicine.cycleOnDays}
+                              onChangeText={text => handleCycleFieldChange('cycleOnDays', text)}
+                              keyboardType="numeric"
+                              textAlign="right"
+                            />
+                          </View>
+                          <View style={styles.cycleField}>
+                            <Text style={styles.cycleFieldLabel}>أيام الراحة</Text>
+                            <TextInput
+                              style={[styles.textInput, validationErrors.cycle && styles.errorInput]}
+                              placeholder="7"
+                              placeholderTextColor="#9CA3AF"
+                              value={newMedicine.cycleOffDays}
+                              onChangeText={text => handleCycleFieldChange('cycleOffDays', text)}
+                              keyboardType="numeric"
+                              textAlign="right"
+                            />
+                          </View>
+                        </>
+                      )}
+                      {newMedicine.cycleType === 'monthly' && (
+                        <View style={styles.cycleField}>
+                          <Text style={styles.cycleFieldLabel}>عدد الأيام كل شهر</Text>
+                          <TextInput
+                            style={[styles.textInput, validationErrors.cycle && styles.errorInput]}
+                            placeholder="5"
+                            placeholderTextColor="#9CA3AF"
+                            value={newMedicine.cycleMonthDays}
+                            onChangeText={text => handleCycleFieldChange('cycleMonthDays', text)}
+                            keyboardType="numeric"
+                            textAlign="right"
+                          />
+                        </View>
+                      )}
+                    </View>
+
+                    <TouchableOpacity
+                      style={styles.cycleStartButton}
+                      onPress={() => setShowCycleStartPicker(true)}
+                    >
+                      <Text style={styles.cycleStartButtonText}>
+                        📍 بداية الدورة: {newMedicine.cycleStartDate.toLocaleDateString('ar-EG', { day: 'numeric', month: 'long', year: 'numeric' })}
+                      </Text>
+                    </TouchableOpacity>
+                    <Text style={styles.stockAlertText}>
+                      تُحسب أيام الدورة ابتداءً من هذا التاريخ
+                    </Text>
+
+                    {showCycleStartPicker && (
+                      <DateTimePicker
+                        value={newMedicine.cycleStartDate}
+                        mode="date"
+                        display="default"
+                        onChange={onCycleStartChange}
+                      />
+                    )}
+
+                    {validationErrors.cycle && (
+                      <View style={styles.errorContainer}>
+                        <Text style={styles.errorIcon}>⚠️</Text>
+                        <Text style={styles.errorText}>{validationErrors.cycle}</Text>
+                      </View>
+                    )}
+                  </View>
+                )}
+
+                {/* Interval Hours Input */}
+                {newMedicine.frequency === 'interval' && (
+                  <View style={styles.inputContainer}>
+                    <Text style={styles.inputLabel}>⏱️ الفاصل بين الجرعات (بالساعات)</Text>
+                    <View style={styles.inputWrapper}>
+                      <TextInput
+                        style={[styles.textInput, validationErrors.interval && styles.errorInput]}
+                        placeholder="مثال: 8"
+                        placeholderTextColor="#9CA3AF"
+                        value={newMedicine.intervalHours}
+                        onChangeText={handleIntervalHoursChange}
+                        keyboardType="numeric"
+                        textAlign="right"
+                      />
+                      <Text style={styles.stockAlertText}>
+                        يُحسب موعد الجرعة التالية من وقت تناول الجرعة السابقة فعلياً
+                      </Text>
+                      {validationErrors.interval && (
+                        <View style={styles.errorContainer}>
+                          <Text style={styles.errorIcon}>⚠️</Text>
+                          <Text style={styles.errorText}>{validationErrors.interval}</Text>
+                        </View>
+                      )}
+                    </View>
+                  </View>
+                )}
+
                 {/* Enhanced Weekly Days Selection */}
                 {newMedicine.frequency === 'weekly' && (
                   <View style={[styles.inputContainer, styles.weeklyDaysContainer]}>
@@ -1579,40 +6400,211 @@ const MedicineReminderApp: React.FC = () => {
                   </View>
                 )}
 
+                {/* Course Duration */}
+                {!newMedicine.taperEnabled && (
+                  <View style={styles.inputContainer}>
+                    <Text style={styles.inputLabel}>⏳ مدة العلاج</Text>
+                    <View style={styles.frequencyContainer}>
+                      {(Object.keys(COURSE_TYPE_CONFIG) as CourseType[]).map(type => (
+                        <TouchableOpacity
+                          key={type}
+                          style={styles.frequencyButtonContainer}
+                          onPress={() => {
+                            setNewMedicine({...newMedicine, courseType: type});
+                            setValidationErrors({...validationErrors, course: undefined});
+                          }}
+                        >
+                          <LinearGradient
+                            colors={newMedicine.courseType === type ? ['#667EEA', '#764BA2'] as [string, string] : ['#F9FAFB', '#F3F4F6'] as [string, string]}
+                            style={styles.frequencyButton}
+                          >
+                            <Text style={styles.frequencyButtonIcon}>{COURSE_TYPE_CONFIG[type].icon}</Text>
+                            <Text style={[
+                              styles.frequencyButtonText,
+                              newMedicine.courseType === type && styles.frequencyButtonTextActive
+                            ]}>
+                              {COURSE_TYPE_CONFIG[type].name}
+                            </Text>
+                          </LinearGradient>
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+
+                    {newMedicine.courseType === 'endDate' && (
+                      <>
+                        <TouchableOpacity
+                          style={styles.cycleStartButton}
+                          onPress={() => setShowCourseEndPicker(true)}
+                        >
+                          <Text style={styles.cycleStartButtonText}>
+                            🏁 آخر يوم: {newMedicine.courseEndDate.toLocaleDateString('ar-EG', { day: 'numeric', month: 'long', year: 'numeric' })}
+                          </Text>
+                        </TouchableOpacity>
+                        {showCourseEndPicker && (
+                          <DateTimePicker
+                            value={newMedicine.courseEndDate}
+                            mode="date"
+                            display="default"
+                            minimumDate={new Date()}
+                            onChange={onCourseEndChange}
+                          />
+                        )}
+                      </>
+                    )}
+
+                    {newMedicine.courseType === 'doseCount' && (
+                      <View style={styles.cycleFieldsRow}>
+                        <View style={styles.cycleField}>
+                          <Text style={styles.cycleFieldLabel}>إجمالي الجرعات</Text>
+                          <TextInput
+                            style={[styles.textInput, validationErrors.course && styles.errorInput]}
+                            placeholder="مثال: 21"
+                            placeholderTextColor="#9CA3AF"
+                            value={newMedicine.courseTotalDoses}
+                            onChangeText={handleCourseTotalDosesChange}
+                            keyboardType="numeric"
+                            textAlign="right"
+                          />
+                        </View>
+                      </View>
+                    )}
+
+                    {newMedicine.courseType !== 'none' && (
+                      <Text style={styles.stockAlertText}>
+                        يتوقف التذكير تلقائياً عند اكتمال العلاج
+                      </Text>
+                    )}
+
+                    {validationErrors.course && (
+                      <View style={styles.errorContainer}>
+                        <Text style={styles.errorIcon}>⚠️</Text>
+                        <Text style={styles.errorText}>{validationErrors.course}</Text>
+                      </View>
+                    )}
+                  </View>
+                )}
+
                 {/* Enhanced Stock Management */}
                 <View style={styles.inputContainer}>
                   <Text style={styles.inputLabel}>📦 إدارة المخزون (اختياري)</Text>
-                  <View style={styles.stockContainer}>
-                    <View style={styles.stockInputContainer}>
-                      <Text style={styles.stockInputLabel}>العدد الحالي</Text>
-                      <View style={styles.stockInputWrapper}>
-                        <TextInput
-                          style={[styles.stockInput, validationErrors.stock && styles.errorInput]}
-                          placeholder="30"
-                          placeholderTextColor="#9CA3AF"
-                          value={newMedicine.stock}
-                          onChangeText={handleStockChange}
-                          keyboardType="numeric"
-                          textAlign="center"
-                        />
+                  {newMedicine.batches.map((batch, index) => (
+                    <View key={index} style={styles.batchEditor}>
+                      <View style={styles.stockContainer}>
+                        <View style={styles.stockInputContainer}>
+                          <Text style={styles.stockInputLabel}>الكمية ({DOSE_FORMS[newMedicine.doseForm].unit})</Text>
+                          <View style={styles.stockInputWrapper}>
+                            <TextInput
+                              style={[styles.stockInput, validationErrors.stock && styles.errorInput]}
+                              placeholder="30"
+                              placeholderTextColor="#9CA3AF"
+                              value={batch.quantity}
+                              onChangeText={(text) => handleBatchChange(index, 'quantity', text)}
+                              keyboardType="numeric"
+                              textAlign="center"
+                            />
+                          </View>
+                        </View>
+
+                        <View style={styles.stockInputContainer}>
+                          <Text style={styles.stockInputLabel}>تاريخ الانتهاء</Text>
+                          <TouchableOpacity style={styles.cycleStartButton} onPress={() => setBatchExpiryPicker(index)}>
+                            <Text style={styles.cycleStartButtonText}>
+                              {batch.expiryDate
+                                ? batch.expiryDate.toLocaleDateString('ar-EG', { month: 'short', year: 'numeric' })
+                                : 'اختر التاريخ'}
+                            </Text>
+                          </TouchableOpacity>
+                        </View>
+                      </View>
+                      <View style={styles.cycleFieldsRow}>
+                        <View style={[styles.inputWrapper, styles.batchLotInput]}>
+                          <TextInput
+                            style={styles.textInput}
+                            placeholder="رقم التشغيلة (اختياري)"
+                            placeholderTextColor="#9CA3AF"
+                            value={batch.lotNumber}
+                            onChangeText={(text) => handleBatchChange(index, 'lotNumber', text)}
+                            textAlign="right"
+                          />
+                        </View>
+                        {newMedicine.batches.length > 1 && (
+                          <TouchableOpacity onPress={() => removeBatch(index)} style={styles.removeTimeButton}>
+                            <LinearGradient
+                              colors={['#FEF2F2', '#FEE2E2'] as [string, string]}
+                              style={styles.removeTimeButtonGradient}
+                            >
+                              <Text style={styles.removeTimeButtonText}>🗑️</Text>
+                            </LinearGradient>
+                          </TouchableOpacity>
+                        )}
                       </View>
                     </View>
-                    
+                  ))}
+                  <TouchableOpacity onPress={addBatch} style={styles.cycleStartButton}>
+                    <Text style={styles.cycleStartButtonText}>➕ إضافة عبوة بتاريخ انتهاء مختلف</Text>
+                  </TouchableOpacity>
+                  {batchExpiryPicker !== null && newMedicine.batches[batchExpiryPicker] && (
+                    <DateTimePicker
+                      value={newMedicine.batches[batchExpiryPicker].expiryDate || new Date()}
+                      mode="date"
+                      display="default"
+                      onChange={onBatchExpiryChange}
+                    />
+                  )}
+
+                  <View style={[styles.stockContainer, styles.fastingFirstRow]}>
                     <View style={styles.stockInputContainer}>
-                      <Text style={styles.stockInputLabel}>تنبيه عند</Text>
+                      <Text style={styles.stockInputLabel}>حجم العبوة</Text>
                       <View style={styles.stockInputWrapper}>
                         <TextInput
                           style={styles.stockInput}
-                          placeholder="5"
+                          placeholder="30"
                           placeholderTextColor="#9CA3AF"
-                          value={newMedicine.stockAlert}
-                          onChangeText={(text) => setNewMedicine({...newMedicine, stockAlert: text})}
+                          value={newMedicine.packSize}
+                          onChangeText={(text) => setNewMedicine({...newMedicine, packSize: text})}
                           keyboardType="numeric"
                           textAlign="center"
                         />
                       </View>
                     </View>
+
+                    {newMedicine.frequency === 'asNeeded' ? (
+                      <View style={styles.stockInputContainer}>
+                        <Text style={styles.stockInputLabel}>تنبيه عند</Text>
+                        <View style={styles.stockInputWrapper}>
+                          <TextInput
+                            style={styles.stockInput}
+                            placeholder="5"
+                            placeholderTextColor="#9CA3AF"
+                            value={newMedicine.stockAlert}
+                            onChangeText={(text) => setNewMedicine({...newMedicine, stockAlert: text})}
+                            keyboardType="numeric"
+                            textAlign="center"
+                          />
+                        </View>
+                      </View>
+                    ) : (
+                      <View style={styles.stockInputContainer}>
+                        <Text style={styles.stockInputLabel}>تذكير قبل النفاد (أيام)</Text>
+                        <View style={styles.stockInputWrapper}>
+                          <TextInput
+                            style={styles.stockInput}
+                            placeholder={String(DEFAULT_REFILL_REMINDER_DAYS)}
+                            placeholderTextColor="#9CA3AF"
+                            value={newMedicine.refillReminderDays}
+                            onChangeText={(text) => setNewMedicine({...newMedicine, refillReminderDays: text})}
+                            keyboardType="numeric"
+                            textAlign="center"
+                          />
+                        </View>
+                      </View>
+                    )}
                   </View>
+                  {newMedicine.frequency !== 'asNeeded' && (
+                    <Text style={styles.stockAlertText}>
+                      يُحسب موعد نفاد الدواء من المخزون وجدول الجرعات
+                    </Text>
+                  )}
                   {validationErrors.stock && (
                     <View style={styles.errorContainer}>
                       <Text style={styles.errorIcon}>⚠️</Text>
@@ -1690,6 +6682,29 @@ const MedicineReminderApp: React.FC = () => {
             filteredMedicines.map((medicine, index) => {
               const colors = getMedicineColors(medicine.category);
               const priorityConfig = PRIORITY_CONFIG[medicine.priority];
+              const todaySlots = getDaySlots(medicine, new Date());
+              const takenToday = todaySlots.filter(slot => slot.status === 'taken').length;
+              const allSlotsDone = todaySlots.length > 0 && todaySlots.every(slot => slot.status);
+              const courseProgress = getCourseProgress(medicine, new Date());
+              const stockForecast = getStockForecast(medicine, new Date());
+              const lowStock = isLowStock(medicine, new Date());
+              const usableStock = getUsableStock(medicine, new Date());
+              const expiredStock = getExpiredStock(medicine, new Date());
+              const expiringBatch = getExpiringBatch(medicine, new Date());
+              const deviceDiscardAt = medicine.device && getDeviceDiscardDate(medicine.device);
+              const taperStep = getTaperStep(medicine, new Date());
+              const nextTaperStep = taperStep && medicine.taper?.[taperStep.index + 1];
+              const fastingToday = isFastingDay(settings.fasting, new Date());
+              const fastingIssue = fastingToday && medicine.frequency !== 'asNeeded'
+                ? getFastingIssue(medicine, settings.fasting)
+                : undefined;
+              const asNeededStatus = medicine.frequency === 'asNeeded'
+                ? getAsNeededStatus(medicine, intakeEvents, new Date())
+                : undefined;
+              // Interval medicines show their next computed dose instead of fixed times
+              const chipTimes = medicine.frequency === 'interval'
+                ? [toTimeString(getNextIntervalDose(medicine))]
+                : medicine.times;
               return (
                 <RNAnimated.View
                   key={medicine.id}
@@ -1746,8 +6761,7 @@ const MedicineReminderApp: React.FC = () => {
                               </LinearGradient>
                             </View>
                           </View>
-                          {medicine.stock !== undefined && medicine.stockAlert !== undefined && 
-                           medicine.stock <= medicine.stockAlert && (
+                          {lowStock && (
                             <LinearGradient
                               colors={['#FEF2F2', '#FEE2E2'] as [string, string]}
                               style={styles.lowStockBadge}
@@ -1756,7 +6770,34 @@ const MedicineReminderApp: React.FC = () => {
                             </LinearGradient>
                           )}
                         </View>
-                        <Text style={styles.medicineDosage}>{medicine.dosage}</Text>
+                        <Text style={styles.medicineDosage}>{getCurrentDosage(medicine, new Date())}</Text>
+                        {medicine.regularTimes && (
+                          <Text style={styles.fastingInfoText}>
+                            🌙 مواعيد الصيام · المعتادة: {medicine.regularTimes.map(formatTime).join('، ')}
+                          </Text>
+                        )}
+                        {fastingToday && !medicine.regularTimes && canRemapForFasting(medicine, settings.fasting) && (
+                          <TouchableOpacity onPress={() => applyFastingTimes(medicine.id)}>
+                            <Text style={styles.fastingInfoText}>
+                              🌙 مقترح للصيام: {getFastingTimes(medicine.times, settings.fasting).map(formatTime).join('، ')} · اضغط للتطبيق
+                            </Text>
+                          </TouchableOpacity>
+                        )}
+                        {fastingIssue && (
+                          <Text style={styles.fastingWarningText}>⚠️ {fastingIssue}</Text>
+                        )}
+                        {taperStep && medicine.taper && (
+                          <Text style={styles.taperStepText}>
+                            📉 المرحلة {taperStep.index + 1} من {medicine.taper.length} · اليوم {taperStep.dayInStep} من {taperStep.step.days}
+                            {nextTaperStep ? ` · التالي: ${nextTaperStep.dosage}` : ' · المرحلة الأخيرة'}
+                          </Text>
+                        )}
+                        {medicine.preReminder && (
+                          <Text style={styles.preReminderText}>
+                            🔔 تذكير قبل {medicine.preReminder.minutesBefore} دقيقة
+                            {medicine.preReminder.note ? ` · ${medicine.preReminder.note}` : ''}
+                          </Text>
+                        )}
                         {medicine.notes && (
                           <Text style={styles.medicineNotes}>📝 {medicine.notes}</Text>
                         )}
@@ -1777,6 +6818,18 @@ const MedicineReminderApp: React.FC = () => {
                           </LinearGradient>
                         </TouchableOpacity>
                         
+                        <TouchableOpacity
+                          onPress={() => openRestock(medicine)}
+                          style={styles.actionButtonContainer}
+                        >
+                          <LinearGradient
+                            colors={['#EEF2FF', '#E0E7FF'] as [string, string]}
+                            style={styles.actionButton}
+                          >
+                            <Text style={styles.actionButtonText}>📦</Text>
+                          </LinearGradient>
+                        </TouchableOpacity>
+
                         <TouchableOpacity
                           onPress={() => deleteMedicine(medicine.id)}
                           style={styles.actionButtonContainer}
@@ -1793,20 +6846,46 @@ const MedicineReminderApp: React.FC = () => {
 
                     {/* Enhanced Medicine Details */}
                     <View style={styles.medicineDetails}>
-                      <View style={styles.detailRow}>
-                        <Text style={styles.detailLabel}>🕐 الأوقات:</Text>
-                        <View style={styles.timesContainer}>
-                          {medicine.times.map((time, timeIndex) => (
-                            <LinearGradient
-                              key={timeIndex}
-                              colors={['#EFF6FF', '#DBEAFE'] as [string, string]}
-                              style={styles.timeChip}
-                            >
-                              <Text style={styles.timeChipText}>{formatTime(time)}</Text>
-                            </LinearGradient>
-                          ))}
+                      {asNeededStatus ? (
+                        <View style={styles.detailRow}>
+                          <Text style={styles.detailLabel}>🆘 آخر 24 ساعة:</Text>
+                          <Text style={[styles.dosesProgressText, asNeededStatus.limitReached && styles.lowStockChipText]}>
+                            {asNeededStatus.dosesInWindow} من {medicine.asNeeded?.maxDailyDoses} جرعات
+                          </Text>
                         </View>
-                      </View>
+                      ) : (
+                        <View style={styles.detailRow}>
+                          <Text style={styles.detailLabel}>🕐 الأوقات:</Text>
+                          <View style={styles.timesContainer}>
+                            {chipTimes.map((time, timeIndex) => {
+                              const isTaken = todaySlots.some(slot => slot.time === time && slot.status === 'taken');
+                              const anchor = medicine.frequency !== 'interval' ? medicine.timeAnchors?.[timeIndex] : undefined;
+                              const slotAmount = medicine.frequency !== 'interval' && medicine.dose ? medicine.timeAmounts?.[timeIndex] : undefined;
+                              return (
+                                <LinearGradient
+                                  key={timeIndex}
+                                  colors={isTaken ? ['#ECFDF5', '#D1FAE5'] as [string, string] : ['#EFF6FF', '#DBEAFE'] as [string, string]}
+                                  style={styles.timeChip}
+                                >
+                                  <Text style={[styles.timeChipText, isTaken && styles.takenTimeChipText]}>
+                                    {isTaken ? '✓ ' : ''}{formatTime(time)}{anchor ? ` · ${describeAnchor(anchor)}` : ''}
+                                    {slotAmount !== undefined && medicine.dose ? ` · ${formatDose({ ...medicine.dose, amount: slotAmount })}` : ''}
+                                  </Text>
+                                </LinearGradient>
+                              );
+                            })}
+                          </View>
+                        </View>
+                      )}
+
+                      {medicine.isActive && todaySlots.length > 0 && (
+                        <View style={styles.detailRow}>
+                          <Text style={styles.detailLabel}>📊 اليوم:</Text>
+                          <Text style={styles.dosesProgressText}>
+                            تم تناول {takenToday} من {todaySlots.length} جرعات اليوم
+                          </Text>
+                        </View>
+                      )}
                       
                       <View style={styles.detailRow}>
                         <Text style={styles.detailLabel}>📅 التكرار:</Text>
@@ -1816,7 +6895,7 @@ const MedicineReminderApp: React.FC = () => {
                             style={styles.frequencyChip}
                           >
                             <Text style={styles.frequencyChipText}>
-                              {medicine.frequency === 'daily' ? 'يومياً' : 'أسبوعياً'}
+                              {getFrequencyLabel(medicine)}
                             </Text>
                           </LinearGradient>
                           {medicine.frequency === 'weekly' && medicine.weeklyDays && (
@@ -1827,13 +6906,41 @@ const MedicineReminderApp: React.FC = () => {
                         </View>
                       </View>
 
+                      {/* Course Progress */}
+                      {courseProgress && (
+                        <View style={styles.courseProgressContainer}>
+                          <View style={styles.courseProgressHeader}>
+                            <Text style={styles.detailLabel}>⏳ العلاج:</Text>
+                            <Text style={styles.dosesProgressText}>
+                              {medicine.course?.completedAt
+                                ? '✅ اكتمل العلاج'
+                                : [
+                                    courseProgress.totalDays ? `اليوم ${courseProgress.day} من ${courseProgress.totalDays}` : undefined,
+                                    courseProgress.totalDoses ? `${courseProgress.dosesTaken} من ${courseProgress.totalDoses} جرعة` : undefined,
+                                  ].filter(Boolean).join(' · ')}
+                            </Text>
+                          </View>
+                          <View style={styles.courseProgressTrack}>
+                            <LinearGradient
+                              colors={colors}
+                              start={{ x: 0, y: 0 }}
+                              end={{ x: 1, y: 0 }}
+                              style={[
+                                styles.courseProgressFill,
+                                { width: `${Math.round((medicine.course?.completedAt ? 1 : courseProgress.ratio) * 100)}%` }
+                              ]}
+                            />
+                          </View>
+                        </View>
+                      )}
+
                       {/* Enhanced Stock Information */}
-                      {medicine.stock !== undefined && (
+                      {usableStock !== undefined && (
                         <View style={styles.detailRow}>
                           <Text style={styles.detailLabel}>📦 المخزون:</Text>
                           <View style={styles.stockDisplay}>
                             <LinearGradient
-                              colors={medicine.stockAlert && medicine.stock <= medicine.stockAlert 
+                              colors={lowStock
                                 ? ['#FEF2F2', '#FEE2E2'] as [string, string]
                                 : ['#F3F4F6', '#E5E7EB'] as [string, string]
                               }
@@ -1841,24 +6948,76 @@ const MedicineReminderApp: React.FC = () => {
                             >
                            <Text style={[
                               styles.stockChipText,
-                              (medicine.stockAlert !== undefined && medicine.stock <= medicine.stockAlert) ? styles.lowStockChipText : undefined
+                              lowStock ? styles.lowStockChipText : undefined
                               ]}>
-                              {medicine.stock} متبقي
+                              {formatStock(medicine, usableStock)} متبقي
                           </Text>
 
                             </LinearGradient>
-                            {medicine.stockAlert && (
+                            {stockForecast ? (
+                              <Text style={[styles.stockAlertText, lowStock && styles.lowStockChipText]}>
+                                📅 {getRunOutLabel(stockForecast.daysLeft)} · {stockForecast.runOutDate.toLocaleDateString('ar-EG', { day: 'numeric', month: 'long' })}
+                              </Text>
+                            ) : medicine.stockAlert !== undefined && (
                               <Text style={styles.stockAlertText}>
                                 تنبيه عند {medicine.stockAlert}
                               </Text>
                             )}
+                            {expiringBatch && (
+                              <Text style={styles.expiringStockText}>
+                                ⏳ {formatStock(medicine, expiringBatch.quantity)}
+                                {expiringBatch.lotNumber ? ` (تشغيلة ${expiringBatch.lotNumber})` : ''}
+                                {' '}{getExpiryLabel(daysBetween(new Date(), new Date(expiringBatch.expiryDate)))}
+                              </Text>
+                            )}
+                            {expiredStock > 0 && (
+                              <TouchableOpacity onPress={() => discardExpiredBatches(medicine.id)}>
+                                <Text style={styles.expiredStockText}>
+                                  ⛔ {formatStock(medicine, expiredStock)} منتهية الصلاحية · اضغط بعد التخلص منها
+                                </Text>
+                              </TouchableOpacity>
+                            )}
+                          </View>
+                        </View>
+                      )}
+
+                      {/* Device Counter */}
+                      {medicine.device && (
+                        <View style={styles.detailRow}>
+                          <Text style={styles.detailLabel}>{DEVICE_KINDS[medicine.device.kind].icon} {DEVICE_KINDS[medicine.device.kind].name}:</Text>
+                          <View style={styles.stockDisplay}>
+                            <LinearGradient
+                              colors={isDeviceLow(medicine.device)
+                                ? ['#FEF2F2', '#FEE2E2'] as [string, string]
+                                : ['#F3F4F6', '#E5E7EB'] as [string, string]
+                              }
+                              style={styles.stockChip}
+                            >
+                              <Text style={[styles.stockChipText, isDeviceLow(medicine.device) ? styles.lowStockChipText : undefined]}>
+                                {formatAmount(medicine.device.remaining)} / {formatStock(medicine, medicine.device.capacity)} متبقي
+                              </Text>
+                            </LinearGradient>
+                            {deviceDiscardAt && (
+                              isDeviceDiscardDue(medicine.device, new Date()) ? (
+                                <Text style={styles.expiredStockText}>⛔ انتهت مدة الاستخدام بعد الفتح، تخلص منه</Text>
+                              ) : (
+                                <Text style={daysBetween(new Date(), deviceDiscardAt) <= DEVICE_DISCARD_WARNING_DAYS ? styles.expiringStockText : styles.stockAlertText}>
+                                  🗑️ يُتلف بعد {daysBetween(new Date(), deviceDiscardAt)} يوم · {deviceDiscardAt.toLocaleDateString('ar-EG', { day: 'numeric', month: 'long' })}
+                                </Text>
+                              )
+                            )}
+                            <TouchableOpacity onPress={() => replaceDevice(medicine.id)}>
+                              <Text style={styles.deviceReplaceText}>🔄 فتح عبوة جديدة</Text>
+                            </TouchableOpacity>
                           </View>
                         </View>
                       )}
 
                       {medicine.isActive && (
                         <View style={styles.detailRow}>
-                          <Text style={styles.nextDoseLabel}>⏳ الجرعة التالية:</Text>
+                          <Text style={styles.nextDoseLabel}>
+                            {asNeededStatus ? '⏳ الجرعة التالية مسموحة:' : '⏳ الجرعة التالية:'}
+                          </Text>
                           <LinearGradient
                             colors={['#FFFBEB', '#FEF3C7'] as [string, string]}
                             style={styles.nextDoseChip}
@@ -1880,18 +7039,55 @@ const MedicineReminderApp: React.FC = () => {
                       )}
                     </View>
 
+                    {/* As-Needed Take Now Button */}
+                    {medicine.isActive && asNeededStatus && (
+                      <View style={styles.asNeededActions}>
+                        <TouchableOpacity
+                          onPress={() => takeAsNeeded(medicine)}
+                          style={[styles.takenButtonContainer, styles.asNeededTakeButton]}
+                        >
+                          <LinearGradient
+                            colors={asNeededStatus.canTake ? colors : ['#9CA3AF', '#6B7280'] as [string, string]}
+                            style={styles.takenButton}
+                          >
+                            <Text style={styles.takenButtonIcon}>💊</Text>
+                            <Text style={styles.takenButtonText}>
+                              {asNeededStatus.canTake ? 'تناول الآن' : 'غير مسموح بعد'}
+                            </Text>
+                          </LinearGradient>
+                        </TouchableOpacity>
+                        <TouchableOpacity
+                          onPress={() => {
+                            setHistoryMedicineId(medicine.id);
+                            setHistoryDate(new Date());
+                            setShowHistory(true);
+                          }}
+                          style={styles.takenButtonContainer}
+                        >
+                          <LinearGradient
+                            colors={['#F3F4F6', '#E5E7EB'] as [string, string]}
+                            style={styles.takenButton}
+                          >
+                            <Text style={styles.takenButtonIcon}>📋</Text>
+                          </LinearGradient>
+                        </TouchableOpacity>
+                      </View>
+                    )}
+
                     {/* Enhanced Take Medicine Button */}
-                    {medicine.isActive && (
+                    {medicine.isActive && !asNeededStatus && (
                       <TouchableOpacity
                         onPress={() => markAsTaken(medicine.id)}
                         style={styles.takenButtonContainer}
                       >
                         <LinearGradient
-                          colors={colors}
+                          colors={allSlotsDone ? ['#9CA3AF', '#6B7280'] as [string, string] : colors}
                           style={styles.takenButton}
                         >
                           <Text style={styles.takenButtonIcon}>✅</Text>
-                          <Text style={styles.takenButtonText}>تم تناول الدواء</Text>
+                          <Text style={styles.takenButtonText}>
+                            {allSlotsDone ? 'تم تسجيل جميع جرعات اليوم' : 'تم تناول الدواء'}
+                          </Text>
                         </LinearGradient>
                       </TouchableOpacity>
                     )}
@@ -1911,254 +7107,642 @@ const styles = StyleSheet.create({
     flex: 1,
     backgroundColor: '#F8FAFC',
   },
-  loadingContainer: {
-    flex: 1,
-    justifyContent: 'center',
-    alignItems: 'center',
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingContent: {
+    alignItems: 'center',
+    backgroundColor: 'rgba(255, 255, 255, 0.95)',
+    padding: 40,
+    borderRadius: 24,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 8 },
+    shadowOpacity: 0.15,
+    shadowRadius: 16,
+    elevation: 8,
+  },
+  loadingIconContainer: {
+    width: 80,
+    height: 80,
+    borderRadius: 40,
+    backgroundColor: 'rgba(102, 126, 234, 0.1)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  loadingIcon: {
+    fontSize: 48,
+  },
+  loadingText: {
+    fontSize: 18,
+    color: '#64748B',
+    fontFamily: 'System',
+    fontWeight: '600',
+    marginBottom: 16,
+  },
+  loadingBar: {
+    width: 200,
+    height: 4,
+    backgroundColor: 'rgba(102, 126, 234, 0.2)',
+    borderRadius: 2,
+    overflow: 'hidden',
+  },
+  loadingProgress: {
+    height: '100%',
+    backgroundColor: '#667EEA',
+    borderRadius: 2,
+  },
+  headerGradient: {
+    borderBottomLeftRadius: 32,
+    borderBottomRightRadius: 32,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 12 },
+    shadowOpacity: 0.25,
+    shadowRadius: 20,
+    elevation: 15,
+  },
+  header: {
+    paddingVertical: 32,
+    paddingHorizontal: 20,
+    position: 'relative',
+  },
+  floatingDecor: {
+    position: 'absolute',
+    zIndex: 1,
+  },
+  floatingDecor1: {
+    top: 20,
+    right: 30,
+  },
+  floatingDecor2: {
+    top: 40,
+    left: 30,
+  },
+  decorEmoji: {
+    fontSize: 24,
+    opacity: 0.7,
+  },
+  headerContent: {
+    alignItems: 'center',
+    zIndex: 2,
+  },
+  headerTitleContainer: {
+    alignItems: 'center',
+    marginBottom: 24,
+  },
+  headerTitle: {
+    fontSize: 36,
+    fontWeight: '900',
+    color: 'white',
+    textAlign: 'center',
+    fontFamily: 'System',
+    marginBottom: 8,
+    textShadowColor: 'rgba(0, 0, 0, 0.3)',
+    textShadowOffset: { width: 0, height: 2 },
+    textShadowRadius: 4,
+  },
+  headerSubtitle: {
+    fontSize: 18,
+    color: 'rgba(255, 255, 255, 0.9)',
+    textAlign: 'center',
+    fontFamily: 'System',
+    fontWeight: '500',
+  },
+  statsContainer: {
+    width: '100%',
+    marginBottom: 20,
+  },
+  statsGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+    justifyContent: 'center',
+  },
+  statCard: {
+    minWidth: 80,
+    borderRadius: 16,
+    overflow: 'hidden',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.15,
+    shadowRadius: 8,
+    elevation: 6,
+  },
+  statCardGradient: {
+    paddingVertical: 16,
+    paddingHorizontal: 12,
+    alignItems: 'center',
+    minHeight: 80,
+    justifyContent: 'center',
+  },
+  statNumber: {
+    fontSize: 24,
+    fontWeight: '800',
+    color: 'white',
+    fontFamily: 'System',
+    marginBottom: 4,
+  },
+  statLabel: {
+    fontSize: 12,
+    color: 'rgba(255, 255, 255, 0.9)',
+    fontFamily: 'System',
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+  statIcon: {
+    fontSize: 16,
+    marginTop: 4,
+  },
+  statusIndicatorContainer: {
+    width: '100%',
+  },
+  statusIndicator: {
+    flexDirection: 'column',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.3)',
+  },
+  statusDot: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+    backgroundColor: '#10F981',
+    marginBottom: 8,
+    shadowColor: '#10F981',
+    shadowOffset: { width: 0, height: 0 },
+    shadowOpacity: 0.8,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  statusText: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: 'white',
+    fontFamily: 'System',
+    marginBottom: 4,
+  },
+  statusSubtext: {
+    fontSize: 12,
+    color: 'rgba(255, 255, 255, 0.8)',
+    fontFamily: 'System',
+    fontWeight: '500',
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 16,
+    backgroundColor: '#F8FAFC',
+  },
+  filterBar: {
+    marginVertical: 16,
+  },
+  categoryScrollView: {
+    maxHeight: 60,
+  },
+  categoryScrollContainer: {
+    paddingHorizontal: 4,
+    gap: 12,
+  },
+  categoryFilterContainer: {
+    borderRadius: 20,
+    overflow: 'hidden',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  categoryFilter: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    gap: 8,
+    minWidth: 120,
+  },
+  categoryFilterIcon: {
+    fontSize: 18,
+  },
+  categoryFilterText: {
+    fontSize: 14,
+    color: '#374151',
+    fontWeight: '600',
+    fontFamily: 'System',
+    flexShrink: 1,
+  },
+  categoryFilterTextActive: {
+    color: 'white',
+  },
+  sortContainer: {
+    marginBottom: 16,
+    paddingHorizontal: 4,
+  },
+  sortLabel: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#374151',
+    marginBottom: 12,
+    textAlign: 'right',
+    fontFamily: 'System',
+  },
+  sortButtons: {
+    flexDirection: 'row',
+    gap: 8,
+    flexWrap: 'wrap',
+  },
+  sortButtonContainer: {
+    borderRadius: 16,
+    overflow: 'hidden',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 3,
+    elevation: 2,
+  },
+  sortButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    gap: 6,
+  },
+  sortButtonIcon: {
+    fontSize: 14,
+  },
+  sortButtonText: {
+    fontSize: 13,
+    color: '#374151',
+    fontWeight: '600',
+    fontFamily: 'System',
+  },
+  sortButtonTextActive: {
+    color: 'white',
+  },
+  addButtonContainer: {
+    marginVertical: 24,
+    borderRadius: 24,
+    overflow: 'hidden',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 8 },
+    shadowOpacity: 0.25,
+    shadowRadius: 16,
+    elevation: 10,
+  },
+  addButton: {
+    paddingVertical: 20,
+    paddingHorizontal: 24,
+  },
+  addButtonContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 16,
+  },
+  addButtonIconContainer: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  addButtonIcon: {
+    fontSize: 18,
+    color: 'white',
+    fontWeight: 'bold',
+  },
+  addButtonTextContainer: {
+    alignItems: 'center',
+  },
+  addButtonText: {
+    color: 'white',
+    fontSize: 18,
+    fontWeight: '700',
+    fontFamily: 'System',
+    marginBottom: 2,
+  },
+  addButtonSubtext: {
+    color: 'rgba(255, 255, 255, 0.8)',
+    fontSize: 14,
+    fontFamily: 'System',
+    fontWeight: '500',
+  },
+  modalContainer: {
+    flex: 1,
+  },
+  modalHeader: {
+    borderBottomLeftRadius: 24,
+    borderBottomRightRadius: 24,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.15,
+    shadowRadius: 12,
+    elevation: 8,
+  },
+  modalHeaderContent: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 24,
+    paddingVertical: 24,
+  },
+  modalTitleContainer: {
+    flex: 1,
+  },
+  modalTitle: {
+    fontSize: 24,
+    fontWeight: '800',
+    color: 'white',
+    fontFamily: 'System',
+    marginBottom: 4,
+  },
+  modalSubtitle: {
+    fontSize: 16,
+    color: 'rgba(255, 255, 255, 0.8)',
+    fontFamily: 'System',
+    fontWeight: '500',
+  },
+  closeButton: {
+    borderRadius: 16,
+    overflow: 'hidden',
+  },
+  closeButtonGradient: {
+    width: 48,
+    height: 48,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  closeButtonText: {
+    fontSize: 20,
+    color: 'white',
+    fontWeight: 'bold',
+  },
+  formContainer: {
+    flex: 1,
+    paddingHorizontal: 24,
+    paddingTop: 32,
+  },
+  inputContainer: {
+    marginBottom: 28,
+  },
+  inputLabel: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#374151',
+    marginBottom: 12,
+    textAlign: 'right',
+    fontFamily: 'System',
+  },
+  inputWrapper: {
+    position: 'relative',
   },
-  loadingContent: {
-    alignItems: 'center',
-    backgroundColor: 'rgba(255, 255, 255, 0.95)',
-    padding: 40,
-    borderRadius: 24,
+  textInput: {
+    borderWidth: 2,
+    borderColor: '#E5E7EB',
+    borderRadius: 20,
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    fontSize: 16,
+    backgroundColor: 'white',
+    minHeight: 56,
+    fontFamily: 'System',
     shadowColor: '#000',
-    shadowOffset: { width: 0, height: 8 },
-    shadowOpacity: 0.15,
-    shadowRadius: 16,
-    elevation: 8,
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.08,
+    shadowRadius: 8,
+    elevation: 4,
   },
-  loadingIconContainer: {
-    width: 80,
-    height: 80,
-    borderRadius: 40,
-    backgroundColor: 'rgba(102, 126, 234, 0.1)',
-    justifyContent: 'center',
+  multilineInput: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  errorInput: {
+    borderColor: '#EF4444',
+    backgroundColor: '#FEF2F2',
+  },
+  errorContainer: {
+    flexDirection: 'row',
     alignItems: 'center',
-    marginBottom: 20,
+    marginTop: 8,
+    paddingHorizontal: 4,
   },
-  loadingIcon: {
-    fontSize: 48,
+  errorIcon: {
+    fontSize: 16,
+    marginRight: 8,
   },
-  loadingText: {
-    fontSize: 18,
-    color: '#64748B',
+  errorText: {
+    color: '#EF4444',
+    fontSize: 14,
     fontFamily: 'System',
     fontWeight: '600',
-    marginBottom: 16,
-  },
-  loadingBar: {
-    width: 200,
-    height: 4,
-    backgroundColor: 'rgba(102, 126, 234, 0.2)',
-    borderRadius: 2,
-    overflow: 'hidden',
+    flex: 1,
+    textAlign: 'right',
   },
-  loadingProgress: {
-    height: '100%',
-    backgroundColor: '#667EEA',
-    borderRadius: 2,
+  categoryGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
   },
-  headerGradient: {
-    borderBottomLeftRadius: 32,
-    borderBottomRightRadius: 32,
+  categoryOptionContainer: {
+    width: (width - 72) / 2,
+    borderRadius: 16,
+    overflow: 'hidden',
     shadowColor: '#000',
-    shadowOffset: { width: 0, height: 12 },
-    shadowOpacity: 0.25,
-    shadowRadius: 20,
-    elevation: 15,
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.08,
+    shadowRadius: 6,
+    elevation: 3,
   },
-  header: {
-    paddingVertical: 32,
-    paddingHorizontal: 20,
-    position: 'relative',
+  categoryOption: {
+    paddingVertical: 16,
+    paddingHorizontal: 12,
+    alignItems: 'center',
+    gap: 8,
+    minHeight: 80,
   },
-  floatingDecor: {
-    position: 'absolute',
-    zIndex: 1,
+  categoryOptionIcon: {
+    fontSize: 24,
   },
-  floatingDecor1: {
-    top: 20,
-    right: 30,
+  categoryOptionText: {
+    fontSize: 13,
+    color: '#374151',
+    fontWeight: '600',
+    fontFamily: 'System',
+    textAlign: 'center',
+    lineHeight: 18,
   },
-  floatingDecor2: {
-    top: 40,
-    left: 30,
+  categoryOptionTextActive: {
+    color: 'white',
   },
-  decorEmoji: {
-    fontSize: 24,
-    opacity: 0.7,
+  priorityContainer: {
+    flexDirection: 'row',
+    gap: 8,
+    flexWrap: 'wrap',
   },
-  headerContent: {
-    alignItems: 'center',
-    zIndex: 2,
+  priorityOptionContainer: {
+    flex: 1,
+    minWidth: (width - 80) / 2,
+    borderRadius: 16,
+    overflow: 'hidden',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.06,
+    shadowRadius: 6,
+    elevation: 3,
   },
-  headerTitleContainer: {
+  priorityOption: {
+    paddingVertical: 14,
+    paddingHorizontal: 12,
     alignItems: 'center',
-    marginBottom: 24,
+    gap: 6,
   },
-  headerTitle: {
-    fontSize: 36,
-    fontWeight: '900',
-    color: 'white',
-    textAlign: 'center',
-    fontFamily: 'System',
-    marginBottom: 8,
-    textShadowColor: 'rgba(0, 0, 0, 0.3)',
-    textShadowOffset: { width: 0, height: 2 },
-    textShadowRadius: 4,
+  priorityOptionIcon: {
+    fontSize: 20,
   },
-  headerSubtitle: {
-    fontSize: 18,
-    color: 'rgba(255, 255, 255, 0.9)',
-    textAlign: 'center',
+  priorityOptionText: {
+    fontSize: 14,
+    color: '#374151',
+    fontWeight: '600',
     fontFamily: 'System',
-    fontWeight: '500',
   },
-  statsContainer: {
-    width: '100%',
-    marginBottom: 20,
+  priorityOptionTextActive: {
+    color: 'white',
   },
-  statsGrid: {
+  timesHeader: {
     flexDirection: 'row',
-    flexWrap: 'wrap',
-    gap: 12,
-    justifyContent: 'center',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
   },
-  statCard: {
-    minWidth: 80,
+  addTimeButton: {
     borderRadius: 16,
     overflow: 'hidden',
     shadowColor: '#000',
-    shadowOffset: { width: 0, height: 4 },
+    shadowOffset: { width: 0, height: 2 },
     shadowOpacity: 0.15,
-    shadowRadius: 8,
-    elevation: 6,
+    shadowRadius: 4,
+    elevation: 3,
   },
-  statCardGradient: {
-    paddingVertical: 16,
-    paddingHorizontal: 12,
+  addTimeButtonGradient: {
+    flexDirection: 'row',
     alignItems: 'center',
-    minHeight: 80,
-    justifyContent: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    gap: 8,
   },
-  statNumber: {
-    fontSize: 24,
-    fontWeight: '800',
+  addTimeButtonIcon: {
+    fontSize: 14,
     color: 'white',
-    fontFamily: 'System',
-    marginBottom: 4,
   },
-  statLabel: {
-    fontSize: 12,
-    color: 'rgba(255, 255, 255, 0.9)',
-    fontFamily: 'System',
+  addTimeButtonText: {
+    color: 'white',
+    fontSize: 14,
     fontWeight: '600',
-    textAlign: 'center',
+    fontFamily: 'System',
   },
-  statIcon: {
-    fontSize: 16,
-    marginTop: 4,
+  timeSlotContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+    gap: 12,
   },
-  statusIndicatorContainer: {
-    width: '100%',
+  timeButton: {
+    flex: 1,
+    borderRadius: 16,
+    overflow: 'hidden',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.06,
+    shadowRadius: 6,
+    elevation: 3,
   },
-  statusIndicator: {
-    flexDirection: 'column',
-    alignItems: 'center',
-    paddingHorizontal: 20,
-    paddingVertical: 16,
-    borderRadius: 20,
-    borderWidth: 1,
-    borderColor: 'rgba(255, 255, 255, 0.3)',
+  timeButtonGradient: {
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    minHeight: 56,
+    justifyContent: 'center',
   },
-  statusDot: {
-    width: 12,
-    height: 12,
-    borderRadius: 6,
-    backgroundColor: '#10F981',
-    marginBottom: 8,
-    shadowColor: '#10F981',
-    shadowOffset: { width: 0, height: 0 },
-    shadowOpacity: 0.8,
-    shadowRadius: 8,
-    elevation: 4,
+  timeButtonContent: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
   },
-  statusText: {
+  timeButtonText: {
     fontSize: 16,
-    fontWeight: '700',
-    color: 'white',
+    color: '#374151',
     fontFamily: 'System',
-    marginBottom: 4,
+    fontWeight: '600',
   },
-  statusSubtext: {
-    fontSize: 12,
-    color: 'rgba(255, 255, 255, 0.8)',
-    fontFamily: 'System',
+  placeholderText: {
+    color: '#9CA3AF',
     fontWeight: '500',
   },
-  content: {
-    flex: 1,
-    paddingHorizontal: 16,
-    backgroundColor: '#F8FAFC',
+  timeIcon: {
+    fontSize: 20,
   },
-  filterBar: {
-    marginVertical: 16,
+  removeTimeButton: {
+    borderRadius: 12,
+    overflow: 'hidden',
   },
-  categoryScrollView: {
-    maxHeight: 60,
+  removeTimeButtonGradient: {
+    width: 44,
+    height: 44,
+    justifyContent: 'center',
+    alignItems: 'center',
   },
-  categoryScrollContainer: {
-    paddingHorizontal: 4,
-    gap: 12,
+  removeTimeButtonText: {
+    fontSize: 18,
   },
-  categoryFilterContainer: {
-    borderRadius: 20,
+  frequencyContainer: {
+    flexDirection: 'row',
+    gap: 16,
+  },
+  frequencyButtonContainer: {
+    flex: 1,
+    borderRadius: 16,
     overflow: 'hidden',
     shadowColor: '#000',
     shadowOffset: { width: 0, height: 2 },
-    shadowOpacity: 0.1,
-    shadowRadius: 4,
+    shadowOpacity: 0.06,
+    shadowRadius: 6,
     elevation: 3,
   },
-  categoryFilter: {
-    flexDirection: 'row',
-    alignItems: 'center',
+  frequencyButton: {
+    paddingVertical: 16,
     paddingHorizontal: 16,
-    paddingVertical: 12,
+    alignItems: 'center',
     gap: 8,
-    minWidth: 120,
   },
-  categoryFilterIcon: {
-    fontSize: 18,
+  frequencyButtonIcon: {
+    fontSize: 24,
   },
-  categoryFilterText: {
-    fontSize: 14,
+  frequencyButtonText: {
+    fontSize: 16,
     color: '#374151',
     fontWeight: '600',
     fontFamily: 'System',
-    flexShrink: 1,
   },
-  categoryFilterTextActive: {
+  frequencyButtonTextActive: {
     color: 'white',
   },
-  sortContainer: {
-    marginBottom: 16,
-    paddingHorizontal: 4,
-  },
-  sortLabel: {
-    fontSize: 16,
-    fontWeight: '700',
-    color: '#374151',
-    marginBottom: 12,
-    textAlign: 'right',
-    fontFamily: 'System',
+  weeklyDaysContainer: {
+    backgroundColor: 'rgba(102, 126, 234, 0.05)',
+    borderRadius: 20,
+    padding: 20,
+    borderWidth: 1,
+    borderColor: 'rgba(102, 126, 234, 0.2)',
   },
-  sortButtons: {
+  weeklyDaysGrid: {
     flexDirection: 'row',
-    gap: 8,
     flexWrap: 'wrap',
+    gap: 10,
+    justifyContent: 'center',
   },
-  sortButtonContainer: {
+  dayButtonContainer: {
     borderRadius: 16,
     overflow: 'hidden',
     shadowColor: '#000',
@@ -2167,28 +7751,62 @@ const styles = StyleSheet.create({
     shadowRadius: 3,
     elevation: 2,
   },
-  sortButton: {
-    flexDirection: 'row',
+  dayButton: {
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    minWidth: 80,
     alignItems: 'center',
-    paddingHorizontal: 12,
-    paddingVertical: 8,
-    gap: 6,
   },
-  sortButtonIcon: {
+  dayButtonText: {
     fontSize: 14,
-  },
-  sortButtonText: {
-    fontSize: 13,
     color: '#374151',
     fontWeight: '600',
     fontFamily: 'System',
   },
-  sortButtonTextActive: {
+  dayButtonTextActive: {
     color: 'white',
   },
-  addButtonContainer: {
-    marginVertical: 24,
-    borderRadius: 24,
+  stockContainer: {
+    flexDirection: 'row',
+    gap: 20,
+  },
+  stockInputContainer: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  stockInputLabel: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginBottom: 8,
+    fontFamily: 'System',
+    fontWeight: '600',
+  },
+  stockInputWrapper: {
+    borderRadius: 16,
+    overflow: 'hidden',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.06,
+    shadowRadius: 6,
+    elevation: 3,
+  },
+  stockInput: {
+    borderWidth: 2,
+    borderColor: '#E5E7EB',
+    borderRadius: 16,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    fontSize: 16,
+    backgroundColor: 'white',
+    minHeight: 52,
+    width: '100%',
+    fontFamily: 'System',
+    fontWeight: '600',
+  },
+  submitButtonContainer: {
+    marginTop: 32,
+    marginBottom: 50,
+    borderRadius: 20,
     overflow: 'hidden',
     shadowColor: '#000',
     shadowOffset: { width: 0, height: 8 },
@@ -2196,993 +7814,1080 @@ const styles = StyleSheet.create({
     shadowRadius: 16,
     elevation: 10,
   },
-  addButton: {
-    paddingVertical: 20,
-    paddingHorizontal: 24,
+  submitButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 20,
+    gap: 12,
+  },
+  submitButtonIcon: {
+    fontSize: 20,
+    color: 'white',
+  },
+  submitButtonText: {
+    color: 'white',
+    fontSize: 18,
+    fontWeight: '700',
+    fontFamily: 'System',
+  },
+  medicinesList: {
+    paddingBottom: 30,
+  },
+  emptyState: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 60,
+    paddingHorizontal: 20,
+  },
+  emptyStateContainer: {
+    alignItems: 'center',
+    padding: 40,
+    borderRadius: 24,
+    borderWidth: 1,
+    borderColor: 'rgba(102, 126, 234, 0.2)',
+  },
+  emptyStateIconContainer: {
+    marginBottom: 24,
+  },
+  emptyStateIconBg: {
+    width: 120,
+    height: 120,
+    borderRadius: 60,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emptyStateIcon: {
+    fontSize: 64,
+  },
+  emptyStateTitle: {
+    fontSize: 24,
+    fontWeight: '800',
+    color: '#374151',
+    marginBottom: 16,
+    textAlign: 'center',
+    fontFamily: 'System',
+  },
+  emptyStateText: {
+    fontSize: 16,
+    color: '#6B7280',
+    textAlign: 'center',
+    lineHeight: 24,
+    fontFamily: 'System',
+    marginBottom: 24,
+    maxWidth: 320,
+  },
+  emptyStateFeatures: {
+    alignItems: 'center',
+    gap: 8,
+  },
+  emptyStateFeature: {
+    fontSize: 14,
+    color: '#667EEA',
+    fontFamily: 'System',
+    fontWeight: '600',
+  },
+  medicineCard: {
+    marginBottom: 20,
+    borderRadius: 24,
+    overflow: 'hidden',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 6 },
+    shadowOpacity: 0.12,
+    shadowRadius: 12,
+    elevation: 8,
+  },
+  inactiveMedicineCard: {
+    opacity: 0.7,
+  },
+  medicineCardGradient: {
+    padding: 24,
+  },
+  medicineHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    marginBottom: 20,
   },
-  addButtonContent: {
+  medicineInfo: {
+    flex: 1,
+    marginRight: 16,
+  },
+  medicineNameContainer: {
     flexDirection: 'row',
-    alignItems: 'center',
-    justifyContent: 'center',
-    gap: 16,
+    alignItems: 'flex-start',
+    marginBottom: 12,
   },
-  addButtonIconContainer: {
-    width: 32,
-    height: 32,
-    borderRadius: 16,
-    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+  colorIndicator: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    marginRight: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.2,
+    shadowRadius: 4,
+    elevation: 3,
     justifyContent: 'center',
     alignItems: 'center',
   },
-  addButtonIcon: {
-    fontSize: 18,
+  categoryIconInCard: {
+    fontSize: 24,
     color: 'white',
-    fontWeight: 'bold',
-  },
-  addButtonTextContainer: {
-    alignItems: 'center',
   },
-  addButtonText: {
-    color: 'white',
-    fontSize: 18,
-    fontWeight: '700',
-    fontFamily: 'System',
-    marginBottom: 2,
+  medicineNameWrapper: {
+    flex: 1,
   },
-  addButtonSubtext: {
-    color: 'rgba(255, 255, 255, 0.8)',
-    fontSize: 14,
+  medicineName: {
+    fontSize: 22,
+    fontWeight: '800',
+    color: '#1F2937',
     fontFamily: 'System',
-    fontWeight: '500',
-  },
-  modalContainer: {
-    flex: 1,
+    marginBottom: 8,
   },
-  modalHeader: {
-    borderBottomLeftRadius: 24,
-    borderBottomRightRadius: 24,
-    shadowColor: '#000',
-    shadowOffset: { width: 0, height: 4 },
-    shadowOpacity: 0.15,
-    shadowRadius: 12,
-    elevation: 8,
+  medicineMetaInfo: {
+    flexDirection: 'row',
+    gap: 8,
+    flexWrap: 'wrap',
   },
-  modalHeaderContent: {
+  priorityBadge: {
     flexDirection: 'row',
-    justifyContent: 'space-between',
     alignItems: 'center',
-    paddingHorizontal: 24,
-    paddingVertical: 24,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    gap: 4,
   },
-  modalTitleContainer: {
-    flex: 1,
+  priorityBadgeIcon: {
+    fontSize: 12,
   },
-  modalTitle: {
-    fontSize: 24,
-    fontWeight: '800',
-    color: 'white',
+  priorityBadgeText: {
+    fontSize: 12,
+    fontWeight: '700',
     fontFamily: 'System',
-    marginBottom: 4,
   },
-  modalSubtitle: {
+  categoryBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  categoryBadgeText: {
+    fontSize: 12,
+    color: '#374151',
+    fontWeight: '600',
+    fontFamily: 'System',
+  },
+  lowStockBadge: {
+    borderRadius: 12,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    marginLeft: 8,
+  },
+  lowStockBadgeText: {
+    fontSize: 14,
+  },
+  medicineDosage: {
     fontSize: 16,
-    color: 'rgba(255, 255, 255, 0.8)',
+    color: '#6B7280',
     fontFamily: 'System',
     fontWeight: '500',
+    lineHeight: 22,
+    marginBottom: 8,
   },
-  closeButton: {
+  medicineNotes: {
+    fontSize: 14,
+    color: '#8B5CF6',
+    fontFamily: 'System',
+    fontWeight: '500',
+    lineHeight: 20,
+    fontStyle: 'italic',
+  },
+  medicineActions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  actionButtonContainer: {
     borderRadius: 16,
     overflow: 'hidden',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
   },
-  closeButtonGradient: {
+  actionButton: {
     width: 48,
     height: 48,
     justifyContent: 'center',
     alignItems: 'center',
   },
-  closeButtonText: {
-    fontSize: 20,
-    color: 'white',
-    fontWeight: 'bold',
+  actionButtonText: {
+    fontSize: 18,
   },
-  formContainer: {
-    flex: 1,
-    paddingHorizontal: 24,
-    paddingTop: 32,
+  medicineDetails: {
+    marginBottom: 24,
+    gap: 16,
   },
-  inputContainer: {
-    marginBottom: 28,
+  detailRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    flexWrap: 'wrap',
+    gap: 8,
   },
-  inputLabel: {
-    fontSize: 18,
+  detailLabel: {
+    fontSize: 16,
     fontWeight: '700',
-    color: '#374151',
-    marginBottom: 12,
-    textAlign: 'right',
+    color: '#4B5563',
     fontFamily: 'System',
+    minWidth: 80,
   },
-  inputWrapper: {
-    position: 'relative',
+  timesContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    flex: 1,
+    justifyContent: 'flex-end',
+    gap: 8,
   },
-  textInput: {
-    borderWidth: 2,
-    borderColor: '#E5E7EB',
-    borderRadius: 20,
-    paddingHorizontal: 20,
-    paddingVertical: 16,
-    fontSize: 16,
-    backgroundColor: 'white',
-    minHeight: 56,
+  timeChip: {
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  timeChipText: {
+    fontSize: 14,
+    color: '#3B82F6',
+    fontWeight: '600',
     fontFamily: 'System',
-    shadowColor: '#000',
-    shadowOffset: { width: 0, height: 4 },
-    shadowOpacity: 0.08,
-    shadowRadius: 8,
-    elevation: 4,
   },
-  multilineInput: {
-    minHeight: 80,
-    textAlignVertical: 'top',
+  takenTimeChipText: {
+    color: '#059669',
   },
-  errorInput: {
-    borderColor: '#EF4444',
-    backgroundColor: '#FEF2F2',
+  dosesProgressText: {
+    fontSize: 14,
+    color: '#059669',
+    fontWeight: '700',
+    fontFamily: 'System',
   },
-  errorContainer: {
+  frequencyDisplay: {
     flexDirection: 'row',
     alignItems: 'center',
-    marginTop: 8,
-    paddingHorizontal: 4,
+    gap: 8,
+    flex: 1,
+    justifyContent: 'flex-end',
   },
-  errorIcon: {
-    fontSize: 16,
-    marginRight: 8,
+  frequencyChip: {
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
   },
-  errorText: {
-    color: '#EF4444',
+  frequencyChipText: {
     fontSize: 14,
-    fontFamily: 'System',
+    color: '#10B981',
     fontWeight: '600',
-    flex: 1,
-    textAlign: 'right',
-  },
-  categoryGrid: {
-    flexDirection: 'row',
-    flexWrap: 'wrap',
-    gap: 12,
-  },
-  categoryOptionContainer: {
-    width: (width - 72) / 2,
-    borderRadius: 16,
-    overflow: 'hidden',
-    shadowColor: '#000',
-    shadowOffset: { width: 0, height: 2 },
-    shadowOpacity: 0.08,
-    shadowRadius: 6,
-    elevation: 3,
+    fontFamily: 'System',
   },
-  categoryOption: {
-    paddingVertical: 16,
-    paddingHorizontal: 12,
+  weeklyDaysDisplay: {
+    fontSize: 14,
+    color: '#6B7280',
+    fontFamily: 'System',
+  },
+  stockDisplay: {
+    flexDirection: 'row',
     alignItems: 'center',
     gap: 8,
-    minHeight: 80,
+    flex: 1,
+    justifyContent: 'flex-end',
   },
-  categoryOptionIcon: {
-    fontSize: 24,
+  stockChip: {
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
   },
-  categoryOptionText: {
-    fontSize: 13,
-    color: '#374151',
+  stockChipText: {
+    fontSize: 14,
+    color: '#4B5563',
     fontWeight: '600',
     fontFamily: 'System',
-    textAlign: 'center',
-    lineHeight: 18,
   },
-  categoryOptionTextActive: {
-    color: 'white',
+  lowStockChipText: {
+    color: '#DC2626',
   },
-  priorityContainer: {
-    flexDirection: 'row',
-    gap: 8,
-    flexWrap: 'wrap',
+  stockAlertText: {
+    fontSize: 12,
+    color: '#9CA3AF',
+    fontFamily: 'System',
   },
-  priorityOptionContainer: {
-    flex: 1,
-    minWidth: (width - 80) / 2,
-    borderRadius: 16,
-    overflow: 'hidden',
-    shadowColor: '#000',
-    shadowOffset: { width: 0, height: 2 },
-    shadowOpacity: 0.06,
-    shadowRadius: 6,
-    elevation: 3,
+  nextDoseLabel: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#4B5563',
+    fontFamily: 'System',
   },
-  priorityOption: {
-    paddingVertical: 14,
+  nextDoseChip: {
+    borderRadius: 16,
     paddingHorizontal: 12,
-    alignItems: 'center',
-    gap: 6,
-  },
-  priorityOptionIcon: {
-    fontSize: 20,
+    paddingVertical: 6,
+    flex: 1,
+    alignItems: 'flex-end',
   },
-  priorityOptionText: {
+  nextDoseText: {
     fontSize: 14,
-    color: '#374151',
+    color: '#D97706',
     fontWeight: '600',
     fontFamily: 'System',
   },
-  priorityOptionTextActive: {
-    color: 'white',
+  lastTakenLabel: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#4B5563',
+    fontFamily: 'System',
   },
-  timesHeader: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    alignItems: 'center',
-    marginBottom: 16,
+  lastTakenValue: {
+    fontSize: 14,
+    color: '#6B7280',
+    fontFamily: 'System',
+    flex: 1,
+    textAlign: 'right',
   },
-  addTimeButton: {
+  takenButtonContainer: {
     borderRadius: 16,
     overflow: 'hidden',
     shadowColor: '#000',
-    shadowOffset: { width: 0, height: 2 },
-    shadowOpacity: 0.15,
-    shadowRadius: 4,
-    elevation: 3,
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.2,
+    shadowRadius: 8,
+    elevation: 6,
   },
-  addTimeButtonGradient: {
+  takenButton: {
     flexDirection: 'row',
     alignItems: 'center',
-    paddingHorizontal: 16,
-    paddingVertical: 10,
+    justifyContent: 'center',
+    paddingVertical: 16,
     gap: 8,
   },
-  addTimeButtonIcon: {
-    fontSize: 14,
+  takenButtonIcon: {
+    fontSize: 18,
     color: 'white',
   },
-  addTimeButtonText: {
+  takenButtonText: {
     color: 'white',
-    fontSize: 14,
-    fontWeight: '600',
+    fontSize: 16,
+    fontWeight: '700',
     fontFamily: 'System',
   },
-  timeSlotContainer: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    marginBottom: 12,
-    gap: 12,
-  },
-  timeButton: {
+  alarmContainer: {
     flex: 1,
-    borderRadius: 16,
-    overflow: 'hidden',
-    shadowColor: '#000',
-    shadowOffset: { width: 0, height: 2 },
-    shadowOpacity: 0.06,
-    shadowRadius: 6,
-    elevation: 3,
-  },
-  timeButtonGradient: {
-    paddingHorizontal: 16,
-    paddingVertical: 14,
-    minHeight: 56,
     justifyContent: 'center',
-  },
-  timeButtonContent: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
     alignItems: 'center',
+    position: 'relative',
   },
-  timeButtonText: {
-    fontSize: 16,
-    color: '#374151',
-    fontFamily: 'System',
-    fontWeight: '600',
+  alarmBackgroundPattern: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    opacity: 0.1,
   },
-  placeholderText: {
-    color: '#9CA3AF',
-    fontWeight: '500',
+  patternDot: {
+    position: 'absolute',
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: 'white',
   },
-  timeIcon: {
-    fontSize: 20,
+  alarmContent: {
+    width: '90%',
+    maxWidth: 400,
+    alignItems: 'center',
+    zIndex: 1,
   },
-  removeTimeButton: {
-    borderRadius: 12,
-    overflow: 'hidden',
+  alarmIconContainer: {
+    marginBottom: 32,
   },
-  removeTimeButtonGradient: {
-    width: 44,
-    height: 44,
+  alarmIconOuter: {
+    width: 140,
+    height: 140,
+    borderRadius: 70,
     justifyContent: 'center',
     alignItems: 'center',
-  },
-  removeTimeButtonText: {
-    fontSize: 18,
-  },
-  frequencyContainer: {
-    flexDirection: 'row',
-    gap: 16,
-  },
-  frequencyButtonContainer: {
-    flex: 1,
-    borderRadius: 16,
-    overflow: 'hidden',
     shadowColor: '#000',
-    shadowOffset: { width: 0, height: 2 },
-    shadowOpacity: 0.06,
-    shadowRadius: 6,
-    elevation: 3,
+    shadowOffset: { width: 0, height: 8 },
+    shadowOpacity: 0.3,
+    shadowRadius: 16,
+    elevation: 12,
   },
-  frequencyButton: {
-    paddingVertical: 16,
-    paddingHorizontal: 16,
+  alarmIconInner: {
+    width: 120,
+    height: 120,
+    borderRadius: 60,
+    justifyContent: 'center',
     alignItems: 'center',
-    gap: 8,
+    position: 'relative',
   },
-  frequencyButtonIcon: {
-    fontSize: 24,
+  alarmIconText: {
+    fontSize: 56,
+    zIndex: 2,
   },
-  frequencyButtonText: {
-    fontSize: 16,
-    color: '#374151',
-    fontWeight: '600',
-    fontFamily: 'System',
+  alarmIconRing: {
+    position: 'absolute',
+    width: '100%',
+    height: '100%',
+    borderRadius: 60,
+    borderWidth: 2,
+    borderColor: 'rgba(255, 255, 255, 0.5)',
   },
-  frequencyButtonTextActive: {
+  alarmTitle: {
+    fontSize: 36,
+    fontWeight: '900',
     color: 'white',
+    marginBottom: 8,
+    textAlign: 'center',
+    fontFamily: 'System',
+    textShadowColor: 'rgba(0, 0, 0, 0.3)',
+    textShadowOffset: { width: 0, height: 2 },
+    textShadowRadius: 4,
   },
-  weeklyDaysContainer: {
-    backgroundColor: 'rgba(102, 126, 234, 0.05)',
-    borderRadius: 20,
-    padding: 20,
-    borderWidth: 1,
-    borderColor: 'rgba(102, 126, 234, 0.2)',
-  },
-  weeklyDaysGrid: {
-    flexDirection: 'row',
-    flexWrap: 'wrap',
-    gap: 10,
-    justifyContent: 'center',
-  },
-  dayButtonContainer: {
-    borderRadius: 16,
-    overflow: 'hidden',
-    shadowColor: '#000',
-    shadowOffset: { width: 0, height: 1 },
-    shadowOpacity: 0.05,
-    shadowRadius: 3,
-    elevation: 2,
+  alarmSubtitle: {
+    fontSize: 18,
+    color: 'rgba(255, 255, 255, 0.9)',
+    marginBottom: 32,
+    textAlign: 'center',
+    fontFamily: 'System',
+    fontWeight: '600',
   },
-  dayButton: {
-    paddingVertical: 12,
-    paddingHorizontal: 16,
-    minWidth: 80,
+  alarmDetails: {
+    width: '100%',
+    borderRadius: 24,
+    padding: 24,
+    marginBottom: 32,
     alignItems: 'center',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.3)',
   },
-  dayButtonText: {
-    fontSize: 14,
-    color: '#374151',
-    fontWeight: '600',
-    fontFamily: 'System',
+  medicineNameCard: {
+    borderRadius: 16,
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    marginBottom: 20,
   },
-  dayButtonTextActive: {
+  alarmMedicineName: {
+    fontSize: 28,
+    fontWeight: '800',
     color: 'white',
+    fontFamily: 'System',
+    textAlign: 'center',
   },
-  stockContainer: {
+  alarmInfoGrid: {
     flexDirection: 'row',
-    gap: 20,
+    gap: 24,
+    marginBottom: 16,
   },
-  stockInputContainer: {
-    flex: 1,
+  alarmInfoItem: {
     alignItems: 'center',
+    flex: 1,
   },
-  stockInputLabel: {
-    fontSize: 14,
-    color: '#6B7280',
+  alarmInfoIcon: {
+    fontSize: 24,
     marginBottom: 8,
-    fontFamily: 'System',
-    fontWeight: '600',
-  },
-  stockInputWrapper: {
-    borderRadius: 16,
-    overflow: 'hidden',
-    shadowColor: '#000',
-    shadowOffset: { width: 0, height: 2 },
-    shadowOpacity: 0.06,
-    shadowRadius: 6,
-    elevation: 3,
   },
-  stockInput: {
-    borderWidth: 2,
-    borderColor: '#E5E7EB',
-    borderRadius: 16,
-    paddingHorizontal: 16,
-    paddingVertical: 14,
+  alarmDosage: {
     fontSize: 16,
-    backgroundColor: 'white',
-    minHeight: 52,
-    width: '100%',
-    fontFamily: 'System',
+    color: 'white',
     fontWeight: '600',
+    fontFamily: 'System',
+    textAlign: 'center',
   },
-  submitButtonContainer: {
-    marginTop: 32,
-    marginBottom: 50,
-    borderRadius: 20,
-    overflow: 'hidden',
-    shadowColor: '#000',
-    shadowOffset: { width: 0, height: 8 },
-    shadowOpacity: 0.25,
-    shadowRadius: 16,
-    elevation: 10,
+  alarmTime: {
+    fontSize: 16,
+    color: 'white',
+    fontWeight: '600',
+    fontFamily: 'System',
+    textAlign: 'center',
   },
-  submitButton: {
+  snoozeOptions: {
     flexDirection: 'row',
-    alignItems: 'center',
     justifyContent: 'center',
-    paddingVertical: 20,
-    gap: 12,
+    gap: 8,
+    marginTop: 12,
   },
-  submitButtonIcon: {
-    fontSize: 20,
-    color: 'white',
+  snoozeOptionButton: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.3)',
+    backgroundColor: 'rgba(255, 255, 255, 0.15)',
   },
-  submitButtonText: {
+  snoozeOptionText: {
     color: 'white',
-    fontSize: 18,
+    fontSize: 14,
     fontWeight: '700',
     fontFamily: 'System',
   },
-  medicinesList: {
-    paddingBottom: 30,
-  },
-  emptyState: {
+  settingsRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
     alignItems: 'center',
-    justifyContent: 'center',
-    paddingVertical: 60,
-    paddingHorizontal: 20,
+    backgroundColor: 'white',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    marginBottom: 8,
   },
-  emptyStateContainer: {
-    alignItems: 'center',
-    padding: 40,
-    borderRadius: 24,
-    borderWidth: 1,
-    borderColor: 'rgba(102, 126, 234, 0.2)',
+  settingsRowLabel: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#374151',
+    fontFamily: 'System',
   },
-  emptyStateIconContainer: {
-    marginBottom: 24,
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
   },
-  emptyStateIconBg: {
-    width: 120,
-    height: 120,
-    borderRadius: 60,
+  stepperButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: '#EEF2FF',
     justifyContent: 'center',
     alignItems: 'center',
   },
-  emptyStateIcon: {
-    fontSize: 64,
+  stepperButtonText: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#667EEA',
   },
-  emptyStateTitle: {
-    fontSize: 24,
-    fontWeight: '800',
-    color: '#374151',
-    marginBottom: 16,
+  stepperValue: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#1F2937',
+    minWidth: 20,
     textAlign: 'center',
     fontFamily: 'System',
   },
-  emptyStateText: {
+  alarmDoseList: {
+    maxHeight: 260,
+    width: '100%',
+  },
+  alarmDoseStatus: {
     fontSize: 16,
-    color: '#6B7280',
+    fontWeight: '700',
+    color: 'white',
     textAlign: 'center',
-    lineHeight: 24,
     fontFamily: 'System',
-    marginBottom: 24,
-    maxWidth: 320,
+    marginTop: 8,
   },
-  emptyStateFeatures: {
-    alignItems: 'center',
+  alarmDoseActions: {
+    flexDirection: 'row',
     gap: 8,
+    marginTop: 10,
   },
-  emptyStateFeature: {
-    fontSize: 14,
-    color: '#667EEA',
-    fontFamily: 'System',
-    fontWeight: '600',
-  },
-  medicineCard: {
-    marginBottom: 20,
-    borderRadius: 24,
+  alarmDoseActionContainer: {
+    flex: 1,
+    borderRadius: 12,
     overflow: 'hidden',
-    shadowColor: '#000',
-    shadowOffset: { width: 0, height: 6 },
-    shadowOpacity: 0.12,
-    shadowRadius: 12,
-    elevation: 8,
   },
-  inactiveMedicineCard: {
-    opacity: 0.7,
+  alarmDoseAction: {
+    paddingVertical: 10,
+    alignItems: 'center',
   },
-  medicineCardGradient: {
-    padding: 24,
+  alarmDoseActionText: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: 'white',
+    fontFamily: 'System',
   },
-  medicineHeader: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    alignItems: 'flex-start',
-    marginBottom: 20,
+  snoozeCountContainer: {
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    marginTop: 8,
   },
-  medicineInfo: {
-    flex: 1,
-    marginRight: 16,
+  snoozeCount: {
+    fontSize: 14,
+    color: 'white',
+    fontWeight: '600',
+    fontFamily: 'System',
+    textAlign: 'center',
   },
-  medicineNameContainer: {
-    flexDirection: 'row',
-    alignItems: 'flex-start',
-    marginBottom: 12,
+  alarmButtons: {
+    width: '100%',
+    gap: 16,
   },
-  colorIndicator: {
-    width: 48,
-    height: 48,
-    borderRadius: 24,
-    marginRight: 12,
+  takenAlarmButton: {
+    borderRadius: 20,
+    overflow: 'hidden',
     shadowColor: '#000',
-    shadowOffset: { width: 0, height: 2 },
-    shadowOpacity: 0.2,
-    shadowRadius: 4,
-    elevation: 3,
-    justifyContent: 'center',
+    shadowOffset: { width: 0, height: 8 },
+    shadowOpacity: 0.25,
+    shadowRadius: 16,
+    elevation: 10,
+  },
+  alarmButtonGradient: {
+    paddingVertical: 18,
+    paddingHorizontal: 24,
     alignItems: 'center',
+    justifyContent: 'center',
   },
-  categoryIconInCard: {
-    fontSize: 24,
+  takenAlarmButtonText: {
     color: 'white',
-  },
-  medicineNameWrapper: {
-    flex: 1,
-  },
-  medicineName: {
-    fontSize: 22,
+    fontSize: 18,
     fontWeight: '800',
-    color: '#1F2937',
     fontFamily: 'System',
-    marginBottom: 8,
-  },
-  medicineMetaInfo: {
-    flexDirection: 'row',
-    gap: 8,
-    flexWrap: 'wrap',
   },
-  priorityBadge: {
+  alarmSecondaryButtons: {
     flexDirection: 'row',
-    alignItems: 'center',
-    paddingHorizontal: 10,
-    paddingVertical: 4,
-    borderRadius: 12,
-    gap: 4,
+    gap: 12,
   },
-  priorityBadgeIcon: {
-    fontSize: 12,
+  snoozeAlarmButton: {
+    flex: 1,
+    borderRadius: 16,
+    overflow: 'hidden',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.3)',
   },
-  priorityBadgeText: {
-    fontSize: 12,
+  snoozeAlarmButtonText: {
+    color: 'white',
+    fontSize: 16,
     fontWeight: '700',
     fontFamily: 'System',
   },
-  categoryBadge: {
-    paddingHorizontal: 10,
-    paddingVertical: 4,
-    borderRadius: 12,
+  stopAlarmButton: {
+    flex: 1,
+    borderRadius: 16,
+    overflow: 'hidden',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.3)',
   },
-  categoryBadgeText: {
-    fontSize: 12,
-    color: '#374151',
-    fontWeight: '600',
+  stopAlarmButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '700',
     fontFamily: 'System',
   },
-  lowStockBadge: {
-    borderRadius: 12,
-    paddingHorizontal: 8,
-    paddingVertical: 4,
-    marginLeft: 8,
+  primaryStatCard: {
+    shadowColor: '#10B981',
   },
-  lowStockBadgeText: {
-    fontSize: 14,
+  secondaryStatCard: {
+    shadowColor: '#3B82F6',
   },
-  medicineDosage: {
-    fontSize: 16,
-    color: '#6B7280',
-    fontFamily: 'System',
-    fontWeight: '500',
-    lineHeight: 22,
-    marginBottom: 8,
+  successStatCard: {
+    shadowColor: '#059669',
   },
-  medicineNotes: {
-    fontSize: 14,
-    color: '#8B5CF6',
-    fontFamily: 'System',
-    fontWeight: '500',
-    lineHeight: 20,
-    fontStyle: 'italic',
+  criticalStatCard: {
+    shadowColor: '#DC2626',
   },
-  medicineActions: {
+  warningStatCard: {
+    shadowColor: '#F59E0B',
+  },
+  quickActionsRow: {
     flexDirection: 'row',
     gap: 12,
+    marginBottom: 16,
   },
-  actionButtonContainer: {
+  historyButtonContainer: {
+    flex: 1,
     borderRadius: 16,
     overflow: 'hidden',
     shadowColor: '#000',
-    shadowOffset: { width: 0, height: 2 },
-    shadowOpacity: 0.1,
-    shadowRadius: 4,
-    elevation: 3,
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.15,
+    shadowRadius: 8,
+    elevation: 5,
   },
-  actionButton: {
-    width: 48,
-    height: 48,
-    justifyContent: 'center',
+  historyButton: {
+    paddingVertical: 14,
     alignItems: 'center',
   },
-  actionButtonText: {
-    fontSize: 18,
-  },
-  medicineDetails: {
-    marginBottom: 24,
-    gap: 16,
+  historyButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '700',
+    fontFamily: 'System',
   },
-  detailRow: {
+  historyDayNav: {
     flexDirection: 'row',
+    alignItems: 'center',
     justifyContent: 'space-between',
-    alignItems: 'flex-start',
-    flexWrap: 'wrap',
-    gap: 8,
+    paddingHorizontal: 20,
+    marginBottom: 8,
   },
-  detailLabel: {
+  historyDayButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#EEF2FF',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  historyDayButtonText: {
+    fontSize: 16,
+    color: '#667EEA',
+  },
+  historyDayText: {
     fontSize: 16,
     fontWeight: '700',
-    color: '#4B5563',
+    color: '#374151',
     fontFamily: 'System',
-    minWidth: 80,
   },
-  timesContainer: {
-    flexDirection: 'row',
-    flexWrap: 'wrap',
-    flex: 1,
-    justifyContent: 'flex-end',
-    gap: 8,
+  historyEmptyText: {
+    fontSize: 15,
+    color: '#9CA3AF',
+    textAlign: 'center',
+    fontFamily: 'System',
+    marginTop: 40,
   },
-  timeChip: {
+  historyEventItem: {
+    backgroundColor: 'white',
     borderRadius: 16,
-    paddingHorizontal: 12,
-    paddingVertical: 6,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.08,
+    shadowRadius: 6,
+    elevation: 3,
   },
-  timeChipText: {
+  historyEventHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  historyEventAction: {
     fontSize: 14,
-    color: '#3B82F6',
-    fontWeight: '600',
+    fontWeight: '700',
     fontFamily: 'System',
   },
-  frequencyDisplay: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    gap: 8,
+  missedSheetOverlay: {
     flex: 1,
     justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
   },
-  frequencyChip: {
+  missedSheet: {
+    maxHeight: '80%',
+    backgroundColor: '#F8FAFC',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    overflow: 'hidden',
+  },
+  missedSheetHeader: {
+    paddingTop: 20,
+    paddingBottom: 20,
+    paddingHorizontal: 20,
+  },
+  missedSheetList: {
+    padding: 16,
+  },
+  missedDoseItem: {
+    backgroundColor: 'white',
     borderRadius: 16,
-    paddingHorizontal: 12,
-    paddingVertical: 6,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.08,
+    shadowRadius: 6,
+    elevation: 3,
   },
-  frequencyChipText: {
-    fontSize: 14,
-    color: '#10B981',
-    fontWeight: '600',
+  missedDoseName: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1F2937',
+    textAlign: 'right',
     fontFamily: 'System',
+    marginBottom: 6,
   },
-  weeklyDaysDisplay: {
+  missedDoseInfo: {
     fontSize: 14,
     color: '#6B7280',
+    textAlign: 'right',
     fontFamily: 'System',
+    marginBottom: 4,
   },
-  stockDisplay: {
+  missedDoseActions: {
     flexDirection: 'row',
-    alignItems: 'center',
     gap: 8,
-    flex: 1,
-    justifyContent: 'flex-end',
-  },
-  stockChip: {
-    borderRadius: 16,
-    paddingHorizontal: 12,
-    paddingVertical: 6,
-  },
-  stockChipText: {
-    fontSize: 14,
-    color: '#4B5563',
-    fontWeight: '600',
-    fontFamily: 'System',
+    marginTop: 12,
   },
-  lowStockChipText: {
-    color: '#DC2626',
+  missedDoseActionContainer: {
+    flex: 1,
+    borderRadius: 12,
+    overflow: 'hidden',
   },
-  stockAlertText: {
-    fontSize: 12,
-    color: '#9CA3AF',
-    fontFamily: 'System',
+  missedDoseAction: {
+    paddingVertical: 10,
+    paddingHorizontal: 8,
+    alignItems: 'center',
   },
-  nextDoseLabel: {
-    fontSize: 16,
+  missedDoseActionText: {
+    fontSize: 13,
     fontWeight: '700',
-    color: '#4B5563',
-    fontFamily: 'System',
-  },
-  nextDoseChip: {
-    borderRadius: 16,
-    paddingHorizontal: 12,
-    paddingVertical: 6,
-    flex: 1,
-    alignItems: 'flex-end',
-  },
-  nextDoseText: {
-    fontSize: 14,
-    color: '#D97706',
-    fontWeight: '600',
+    color: 'white',
     fontFamily: 'System',
   },
-  lastTakenLabel: {
-    fontSize: 16,
+  missedDoseActionTextDark: {
+    fontSize: 13,
     fontWeight: '700',
-    color: '#4B5563',
+    color: '#374151',
     fontFamily: 'System',
   },
-  lastTakenValue: {
-    fontSize: 14,
-    color: '#6B7280',
-    fontFamily: 'System',
-    flex: 1,
-    textAlign: 'right',
+  frequencyGrid: {
+    flexWrap: 'wrap',
   },
-  takenButtonContainer: {
-    borderRadius: 16,
-    overflow: 'hidden',
-    shadowColor: '#000',
-    shadowOffset: { width: 0, height: 4 },
-    shadowOpacity: 0.2,
-    shadowRadius: 8,
-    elevation: 6,
+  frequencyGridItem: {
+    minWidth: '40%',
   },
-  takenButton: {
+  cycleTypeList: {
+    gap: 10,
+  },
+  cycleTypeButton: {
     flexDirection: 'row',
-    alignItems: 'center',
     justifyContent: 'center',
-    paddingVertical: 16,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    alignItems: 'center',
     gap: 8,
   },
-  takenButtonIcon: {
-    fontSize: 18,
-    color: 'white',
+  cycleFieldsRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 12,
   },
-  takenButtonText: {
-    color: 'white',
-    fontSize: 16,
-    fontWeight: '700',
-    fontFamily: 'System',
+  cycleField: {
+    flex: 1,
+    gap: 6,
+  },
+  cycleFieldLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#4B5563',
+    textAlign: 'right',
   },
-  alarmContainer: {
-    flex: 1,
-    justifyContent: 'center',
+  cycleStartButton: {
+    marginTop: 12,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 12,
+    backgroundColor: '#EEF2FF',
     alignItems: 'center',
-    position: 'relative',
   },
-  alarmBackgroundPattern: {
-    position: 'absolute',
-    top: 0,
-    left: 0,
-    right: 0,
-    bottom: 0,
-    opacity: 0.1,
+  cycleStartButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#4338CA',
   },
-  patternDot: {
-    position: 'absolute',
-    width: 8,
+  courseProgressContainer: {
+    gap: 8,
+  },
+  courseProgressHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  courseProgressTrack: {
     height: 8,
     borderRadius: 4,
-    backgroundColor: 'white',
+    backgroundColor: '#E5E7EB',
+    overflow: 'hidden',
   },
-  alarmContent: {
-    width: '90%',
-    maxWidth: 400,
+  courseProgressFill: {
+    height: '100%',
+    borderRadius: 4,
+  },
+  taperToggleRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
     alignItems: 'center',
-    zIndex: 1,
   },
-  alarmIconContainer: {
-    marginBottom: 32,
+  taperDosageField: {
+    flex: 2,
   },
-  alarmIconOuter: {
-    width: 140,
-    height: 140,
-    borderRadius: 70,
-    justifyContent: 'center',
-    alignItems: 'center',
-    shadowColor: '#000',
-    shadowOffset: { width: 0, height: 8 },
-    shadowOpacity: 0.3,
-    shadowRadius: 16,
-    elevation: 12,
+  taperRemoveButton: {
+    alignSelf: 'flex-end',
   },
-  alarmIconInner: {
-    width: 120,
-    height: 120,
-    borderRadius: 60,
-    justifyContent: 'center',
-    alignItems: 'center',
-    position: 'relative',
+  taperStepText: {
+    fontSize: 13,
+    color: '#7C3AED',
+    fontWeight: '600',
+    textAlign: 'right',
+    marginTop: 4,
   },
-  alarmIconText: {
-    fontSize: 56,
-    zIndex: 2,
+  asNeededActions: {
+    flexDirection: 'row',
+    gap: 12,
   },
-  alarmIconRing: {
-    position: 'absolute',
-    width: '100%',
-    height: '100%',
-    borderRadius: 60,
-    borderWidth: 2,
-    borderColor: 'rgba(255, 255, 255, 0.5)',
+  asNeededTakeButton: {
+    flex: 1,
   },
-  alarmTitle: {
-    fontSize: 36,
-    fontWeight: '900',
-    color: 'white',
-    marginBottom: 8,
-    textAlign: 'center',
-    fontFamily: 'System',
-    textShadowColor: 'rgba(0, 0, 0, 0.3)',
-    textShadowOffset: { width: 0, height: 2 },
-    textShadowRadius: 4,
+  routineTimeButton: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 10,
+    backgroundColor: '#EFF6FF',
   },
-  alarmSubtitle: {
-    fontSize: 18,
-    color: 'rgba(255, 255, 255, 0.9)',
-    marginBottom: 32,
-    textAlign: 'center',
-    fontFamily: 'System',
-    fontWeight: '600',
+  routineTimeText: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#1D4ED8',
   },
-  alarmDetails: {
-    width: '100%',
-    borderRadius: 24,
-    padding: 24,
-    marginBottom: 32,
-    alignItems: 'center',
-    borderWidth: 1,
-    borderColor: 'rgba(255, 255, 255, 0.3)',
+  anchorToggle: {
+    alignSelf: 'flex-end',
+    marginTop: -4,
+    marginBottom: 12,
   },
-  medicineNameCard: {
-    borderRadius: 16,
-    paddingHorizontal: 20,
-    paddingVertical: 12,
-    marginBottom: 20,
+  anchorToggleText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#667EEA',
   },
-  alarmMedicineName: {
-    fontSize: 28,
-    fontWeight: '800',
-    color: 'white',
-    fontFamily: 'System',
-    textAlign: 'center',
+  anchorEditor: {
+    gap: 8,
+    marginBottom: 16,
   },
-  alarmInfoGrid: {
+  anchorChipsRow: {
     flexDirection: 'row',
-    gap: 24,
-    marginBottom: 16,
+    flexWrap: 'wrap',
+    gap: 8,
   },
-  alarmInfoItem: {
-    alignItems: 'center',
-    flex: 1,
+  anchorChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 14,
+    backgroundColor: '#F3F4F6',
   },
-  alarmInfoIcon: {
-    fontSize: 24,
-    marginBottom: 8,
+  anchorChipActive: {
+    backgroundColor: '#667EEA',
   },
-  alarmDosage: {
-    fontSize: 16,
-    color: 'white',
+  anchorChipText: {
+    fontSize: 13,
+    color: '#4B5563',
     fontWeight: '600',
-    fontFamily: 'System',
-    textAlign: 'center',
   },
-  alarmTime: {
-    fontSize: 16,
+  anchorChipTextActive: {
     color: 'white',
+  },
+  fastingFirstRow: {
+    marginTop: 12,
+  },
+  fastingInfoText: {
+    fontSize: 13,
+    color: '#4338CA',
     fontWeight: '600',
-    fontFamily: 'System',
-    textAlign: 'center',
+    textAlign: 'right',
+    marginTop: 4,
   },
-  snoozeCountContainer: {
-    borderRadius: 12,
-    paddingHorizontal: 16,
+  fastingWarningText: {
+    fontSize: 13,
+    color: '#B45309',
+    fontWeight: '600',
+    textAlign: 'right',
+    marginTop: 4,
+  },
+  alertModeRow: {
+    flexDirection: 'row',
+    gap: 6,
+  },
+  soundPreviewButton: {
+    alignSelf: 'flex-end',
+    marginTop: 10,
+    paddingHorizontal: 14,
     paddingVertical: 8,
-    marginTop: 8,
+    borderRadius: 14,
+    backgroundColor: '#EEF2FF',
   },
-  snoozeCount: {
-    fontSize: 14,
-    color: 'white',
+  soundPreviewText: {
+    fontSize: 13,
     fontWeight: '600',
-    fontFamily: 'System',
-    textAlign: 'center',
-  },
-  alarmButtons: {
-    width: '100%',
-    gap: 16,
+    color: '#667EEA',
   },
-  takenAlarmButton: {
-    borderRadius: 20,
-    overflow: 'hidden',
-    shadowColor: '#000',
-    shadowOffset: { width: 0, height: 8 },
-    shadowOpacity: 0.25,
-    shadowRadius: 16,
-    elevation: 10,
+  soundCategoryRow: {
+    gap: 6,
+    marginTop: 10,
   },
-  alarmButtonGradient: {
-    paddingVertical: 18,
-    paddingHorizontal: 24,
+  vibrationPreview: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
     alignItems: 'center',
-    justifyContent: 'center',
+    rowGap: 6,
+    paddingVertical: 8,
   },
-  takenAlarmButtonText: {
-    color: 'white',
-    fontSize: 18,
-    fontWeight: '800',
-    fontFamily: 'System',
+  vibrationPulse: {
+    height: 14,
+    borderRadius: 4,
+    backgroundColor: '#667EEA',
   },
-  alarmSecondaryButtons: {
-    flexDirection: 'row',
-    gap: 12,
+  vibrationGap: {
+    height: 14,
   },
-  snoozeAlarmButton: {
+  batchEditor: {
+    gap: 8,
+    marginBottom: 12,
+  },
+  batchLotInput: {
     flex: 1,
-    borderRadius: 16,
-    overflow: 'hidden',
-    borderWidth: 1,
-    borderColor: 'rgba(255, 255, 255, 0.3)',
   },
-  snoozeAlarmButtonText: {
-    color: 'white',
-    fontSize: 16,
+  expiringStockText: {
+    fontSize: 12,
+    color: '#B45309',
+    fontWeight: '600',
+    textAlign: 'right',
+  },
+  expiredStockText: {
+    fontSize: 12,
+    color: '#991B1B',
     fontWeight: '700',
-    fontFamily: 'System',
+    textAlign: 'right',
   },
-  stopAlarmButton: {
-    flex: 1,
-    borderRadius: 16,
-    overflow: 'hidden',
-    borderWidth: 1,
-    borderColor: 'rgba(255, 255, 255, 0.3)',
+  preReminderText: {
+    fontSize: 13,
+    color: '#0E7490',
+    fontWeight: '600',
+    textAlign: 'right',
+    marginTop: 4,
   },
-  stopAlarmButtonText: {
-    color: 'white',
-    fontSize: 16,
-    fontWeight: '700',
-    fontFamily: 'System',
+  stockHistoryRow: {
+    flexDirection: 'row-reverse',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 6,
   },
-  primaryStatCard: {
-    shadowColor: '#10B981',
+  stockHistoryDay: {
+    width: 56,
+    fontSize: 12,
+    color: '#6B7280',
+    textAlign: 'right',
   },
-  secondaryStatCard: {
-    shadowColor: '#3B82F6',
+  stockHistoryTrack: {
+    flex: 1,
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: '#F3F4F6',
+    overflow: 'hidden',
+    alignItems: 'flex-end',
   },
-  successStatCard: {
-    shadowColor: '#059669',
+  stockHistoryBar: {
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: '#667EEA',
   },
-  criticalStatCard: {
-    shadowColor: '#DC2626',
+  stockHistoryBarInvalid: {
+    backgroundColor: '#EF4444',
   },
-  warningStatCard: {
-    shadowColor: '#F59E0B',
+  stockHistoryLevel: {
+    width: 84,
+    fontSize: 12,
+    color: '#374151',
+    fontWeight: '600',
+    textAlign: 'left',
+  },
+  deviceReplaceText: {
+    fontSize: 12,
+    color: '#4F46E5',
+    fontWeight: '600',
+    textAlign: 'right',
   },
 });
 